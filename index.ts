@@ -1,8 +1,12 @@
 import {
+	createContext,
+	createElement,
 	Dispatch,
+	ReactNode,
 	RefObject,
 	SetStateAction,
 	useCallback,
+	useContext,
 	useEffect,
 	useLayoutEffect,
 	useReducer,
@@ -201,81 +205,1335 @@ export function useKeep<T>(value: T): T {
 	return ref.current
 }
 
-type LoadState<T> = {
+// kept across state transitions, except progress which is reset when a load starts
+export type LoadStateMeta = {
+	progress?: unknown // the latest value reported by the current or last load
+	// Date.now() timestamps
+	startedAt?: number // when the current or last load started
+	updatedAt?: number // when data was last set
+	errorAt?: number // when error was last set
+}
+
+export type LoadState<T> = ({
+	// never loaded
+	status: 'idle'
+	data?: undefined
+	error?: undefined
+	loading: false
+} | {
+	status: 'success'
 	data: T
 	error?: undefined
 	loading: false
 } | {
+	status: 'error'
 	data?: undefined
 	error: unknown
 	loading: false
 } | {
+	status: 'loading'
 	data?: undefined
 	error?: undefined
-	loading: boolean
+	loading: true
+} | {
+	// reloading with keepPrevious
+	status: 'loading'
+	data: T
+	error?: undefined
+	loading: true
+} | {
+	// reloading with keepPrevious: {error: true}
+	status: 'loading'
+	data?: undefined
+	error: unknown
+	loading: true
+}) & LoadStateMeta
+
+export type RetryOptions = {
+	count?: number // default: 3
+	delay?(attempt: number, error: unknown): number // attempt starts from 0. Default: 1s, 2s, 4s, ..., up to 30s
+	when?(error: unknown, attempt: number): boolean // default: always retry
 }
 
-export function useLoad<T, Params extends any[] = []>(
-	getInitial?: () => T | undefined // may throw an error
-): LoadState<T> & {
-	loadingRef: RefObject<Promise<T> | undefined>
-	loadAbortable<T2, Params2 extends any[]>(cb: (disposer: {
-		signal: Disposer['signal']
-		add: Disposer['add']
-	}, ...params: Params2) => T2): (...params: Params2) => T2
-	load<Callback extends (...params: any[]) => any>(cb: Callback): Callback
-} {
-	const loadingRef = useRef<Promise<T>>(undefined)
-	const [state, setState] = useState<LoadState<T>>(() => {
-		if (!getInitial) return {loading: false} as const
+export type LoadOptions<T = any> = {
+	// keep data of the last load while reloading. Pass {error: true} to also keep the last error
+	keepPrevious?: boolean | {error?: boolean}
+	// retry count, or retry policy. Only rejected promises are retried
+	retry?: number | RetryOptions
+	// in ms. Abort the signal with a TimeoutError reason, which is set to error
+	timeout?: number
+	// what to do when a load is called while another is in progress
+	// replace (default): abort the in-progress load
+	// exhaust: ignore the new call, return the in-progress promise
+	// queue: start the new call after the in-progress and queued loads finish
+	// dedupe: return the in-progress promise if params deeply equal, otherwise replace
+	strategy?: 'replace' | 'exhaust' | 'queue' | 'dedupe'
+	// in ms. Re-run the last load periodically, keeping data while reloading
+	// a tick is skipped while the document is hidden or a load is in progress
+	refreshInterval?: number
+	// re-run the last load when the window gets focused, or the network reconnects, keeping data while reloading
+	revalidateOnFocus?: boolean
+	revalidateOnReconnect?: boolean
+	// in ms. Minimum interval between revalidations on focus or reconnect. Default: 5000
+	revalidateThrottle?: number
+	// called once per load with the params of the call. onSuccess, onError and onSettled are never called for an aborted load
+	onSuccess?(data: T, params: unknown[]): void
+	onError?(error: unknown, params: unknown[]): void
+	onSettled?(data: T | undefined, error: unknown, params: unknown[]): void
+	// the load is aborted before it settles, e.g. superseded or unmounted
+	onAbort?(reason: unknown, params: unknown[]): void
+	// passed to load observers
+	name?: string
+}
+
+// options of a background reload: keep data while reloading
+function revalidateOptions<T>(options: LoadOptions<T>): LoadOptions<T> {
+	return {...options, keepPrevious: options.keepPrevious || true}
+}
+
+// options whose callbacks call the callbacks of the latest options, when the load settles
+function latestOptions<T>(optionsRef: RefObject<LoadOptions<T>>): LoadOptions<T> {
+	return {
+		...optionsRef.current,
+		onSuccess: (...args) => optionsRef.current.onSuccess?.(...args),
+		onError: (...args) => optionsRef.current.onError?.(...args),
+		onSettled: (...args) => optionsRef.current.onSettled?.(...args),
+		onAbort: (...args) => optionsRef.current.onAbort?.(...args),
+	}
+}
+
+export type LoadEvent = {
+	name?: string // LoadOptions.name
+	params: unknown[]
+	startedAt: number // Date.now() when the load started
+} & ({
+	type: 'start'
+} | {
+	type: 'success'
+	data: unknown
+	duration: number // in ms
+} | {
+	type: 'error'
+	error: unknown
+	duration: number
+} | {
+	type: 'abort'
+	reason: unknown
+	duration: number
+})
+
+export type LoadObserver = (event: LoadEvent) => void
+
+const loadObservers = new Set<LoadObserver>()
+
+// observe the loads of every useLoad() and load cache. Returns the function to unregister observer
+export function registerLoadObserver(observer: LoadObserver) {
+	loadObservers.add(observer)
+	return () => void loadObservers.delete(observer)
+}
+
+function emitLoadEvent(event: LoadEvent) {
+	for (const observer of loadObservers) callback(observer, event)
+}
+
+// a throwing callback is reported asynchronously, without affecting the load
+function callback<Args extends unknown[]>(fn: ((...args: Args) => void) | undefined, ...args: Args) {
+	try {
+		fn?.(...args)
+	} catch (error) {
+		setTimeout(() => {
+			throw error
+		})
+	}
+}
+
+// options which can be overridden per loadAbortable() or load() call
+export type LoadCallOptions = Pick<LoadOptions, 'timeout' | 'strategy'>
+
+export class TimeoutError extends Error {
+	name = 'TimeoutError'
+
+	constructor(readonly timeout: number) {
+		super(`Load timed out after ${timeout}ms`)
+	}
+}
+
+const idleState = {status: 'idle', loading: false} as const
+
+function timestamps({startedAt, updatedAt, errorAt}: LoadStateMeta): LoadStateMeta {
+	return {startedAt, updatedAt, errorAt}
+}
+
+function loadingState<T>(state: LoadState<T>, keepPrevious: LoadOptions['keepPrevious']): LoadState<T> {
+	const meta = {...timestamps(state), startedAt: Date.now()}
+	if (keepPrevious) {
+		if ('data' in state) return {...meta, status: 'loading', data: state.data as T, loading: true}
+		if ('error' in state && typeof keepPrevious === 'object' && keepPrevious.error) return {...meta, status: 'loading', error: state.error, loading: true}
+	}
+	return {...meta, status: 'loading', loading: true}
+}
+
+function settledState<T>(state: LoadState<T>): LoadState<T> {
+	const meta = timestamps(state)
+	if ('data' in state) return {...meta, status: 'success', data: state.data as T, loading: false}
+	if ('error' in state) return {...meta, status: 'error', error: state.error, loading: false}
+	return {...meta, ...idleState}
+}
+
+export type DataAction<T> = T | ((data: T | undefined) => T)
+
+// replace data, keep loading as is
+function dataState<T>(state: LoadState<T>, action: DataAction<T>, updatedAt = Date.now()): LoadState<T> {
+	const data = nextStateFromAction(action as SetStateAction<T | undefined>, state.data) as T
+	const meta = {...timestamps(state), updatedAt}
+	return state.loading ? {...meta, status: 'loading', data, loading: true} : {...meta, status: 'success', data, loading: false}
+}
+
+// jdisposer's dispose() aborts the signal without a reason
+function makeLoadDisposer() {
+	const controller = new AbortController()
+	const {add, dispose} = makeDisposer()
+	return {
+		signal: controller.signal,
+		add,
+		dispose(reason?: unknown) {
+			if (controller.signal.aborted) return
+			controller.abort(reason)
+			dispose()
+		}
+	}
+}
+
+type LoadDisposer = ReturnType<typeof makeLoadDisposer>
+
+// resolve after ms, or as soon as signal aborts
+function wait(ms: number, signal: AbortSignal) {
+	return new Promise<void>(resolve => {
+		const onAbort = () => {
+			clearTimeout(timer)
+			resolve()
+		}
+		const timer = setTimeout(() => {
+			signal.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		signal.addEventListener('abort', onAbort, {once: true})
+	})
+}
+
+async function retryLoad<T>(
+	result: T | Promise<T>,
+	call: () => T | Promise<T>,
+	retry: LoadOptions['retry'] = 0,
+	signal: AbortSignal
+): Promise<T> {
+	const {
+		count = 3,
+		delay = (attempt: number) => Math.min(1000 * 2 ** attempt, 30000),
+		when = () => true
+	} = typeof retry === 'number' ? {count: retry} : retry
+	for (let attempt = 0; ; attempt++) {
 		try {
-			return {data: getInitial() as T, loading: false} as const
+			return await result
 		} catch (error) {
-			return {error, loading: false} as const
+			if (signal.aborted || attempt >= count || !when(error, attempt)) throw error
+			await wait(delay(attempt, error), signal)
+			if (signal.aborted) throw error
+			result = Promise.resolve().then(call)
 		}
-	})
+	}
+}
 
-	const disposerRef = useRef(makeDisposer())
-	useEffect(() => () => {
-		disposerRef.current.dispose()
-		disposerRef.current = makeDisposer()
-	}, [])
+export type PartialDisposer = Pick<Disposer, 'signal' | 'add'> & {
+	progress(value: unknown): void
+}
 
-	const loadAbortable: any = useCallback((fn: (disposer: {
-		signal: Disposer['signal']
-		add: Disposer['add']
-	}, ...params: Params) => T | Promise<T>) => (...params: Params) => {
-		if (disposerRef.current.signal.aborted) return fn({signal: disposerRef.current.signal, add: disposerRef.current.add}, ...params)
+function partialDisposer({signal, add}: LoadDisposer, progress = (_: unknown) => {}): PartialDisposer {
+	return {signal, add, progress}
+}
 
-		disposerRef.current.dispose()
-		const disposer = disposerRef.current = makeDisposer()
-		setState({loading: true})
-		try {
-			const result = fn({signal: disposer.signal, add: disposer.add}, ...params)
-			if (typeof (result as any)?.then === 'function') return loadingRef.current = (async () => {
-				try {
-					const data = await result
-					if (!disposer.signal.aborted) setState({data, loading: false})
-					return data
-				} catch (error) {
-					if (!disposer.signal.aborted) setState({error, loading: false})
-					throw error
-				} finally {
-					if (!disposer.signal.aborted) loadingRef.current = undefined
+// the result of a load function, where a stream yields data progressively
+export type LoadResult<T> = T | Promise<T> | AsyncIterable<T>
+
+// the value returned by a load call: a stream is consumed into a promise of its last value
+export type LoadReturn<R> = R extends AsyncIterable<infer T> ? Promise<T> : R
+
+function isStream(value: unknown): value is AsyncIterable<unknown> {
+	return typeof (value as any)?.[Symbol.asyncIterator] === 'function'
+}
+
+// call onValue with each value of stream, and resolve the last value
+// disposing the load calls return() of the iterator, so that a generator runs its finally blocks
+async function consumeStream<T>(stream: AsyncIterable<T>, disposer: LoadDisposer, onValue: (value: T) => void): Promise<T> {
+	const iterator = stream[Symbol.asyncIterator]()
+	let done = false
+	disposer.add(() => void (!done && Promise.resolve(iterator.return?.()).catch(() => {})))
+	let value: T | undefined
+	try {
+		for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+			if (disposer.signal.aborted) break
+			onValue(value = next.value)
+		}
+	} finally {
+		done = true
+	}
+	return value as T
+}
+
+function callLoad<T, Params extends unknown[]>(
+	fn: (disposer: PartialDisposer, ...params: Params) => LoadResult<T>,
+	disposer: LoadDisposer,
+	params: Params,
+	progress?: (value: unknown) => void,
+	onValue = (_: T) => {}
+): T | Promise<T> {
+	const result = fn(partialDisposer(disposer, progress), ...params)
+	return isStream(result) ? consumeStream(result, disposer, onValue) : result
+}
+
+type LoadQueue = {
+	tail: Promise<unknown> // settled when the last queued load finishes
+	disposer: LoadDisposer // disposed when the queued loads are dropped
+}
+
+type LoadTarget<T> = {
+	disposerRef: RefObject<LoadDisposer>
+	loadingRef: RefObject<Promise<T> | undefined>
+	paramsRef: RefObject<unknown[] | undefined> // params of the in-progress load
+	queueRef: RefObject<LoadQueue | undefined>
+	stateRef: RefObject<LoadState<T>>
+	setState: Dispatch<SetStateAction<LoadState<T>>>
+}
+
+type RunOptions<T> = LoadOptions<T> & {
+	optimistic?: {data: T} // data while loading, rolled back if the load fails or is superseded
+}
+
+// abort the in-progress load of target, and drop its queued loads
+function disposeLoad<T>({disposerRef, queueRef}: LoadTarget<T>, reason?: unknown) {
+	queueRef.current?.disposer.dispose(reason)
+	queueRef.current = undefined
+	disposerRef.current.dispose(reason)
+}
+
+// abort the in-progress and queued loads of target, and set loading to false. target can load again
+function abortLoad<T>(target: LoadTarget<T>, reason?: unknown) {
+	disposeLoad(target, reason)
+	target.disposerRef.current = makeLoadDisposer()
+	target.loadingRef.current = undefined
+	target.paramsRef.current = undefined
+	target.setState(state => state.loading ? settledState(state) : state)
+}
+
+function runLoad<T, Params extends unknown[]>(
+	target: LoadTarget<T>,
+	fn: (disposer: PartialDisposer, ...params: Params) => LoadResult<T>,
+	params: Params,
+	options: RunOptions<T>
+): T | Promise<T> {
+	const {disposerRef, loadingRef, paramsRef, queueRef} = target
+	if (disposerRef.current.signal.aborted) return callLoad(fn, disposerRef.current, params)
+
+	switch (options.strategy) {
+		case 'exhaust':
+			if (loadingRef.current) return loadingRef.current
+			break
+		case 'dedupe':
+			if (loadingRef.current && deepEqual(paramsRef.current, params)) return loadingRef.current
+			break
+		case 'queue': {
+			const previous = queueRef.current?.tail ?? loadingRef.current
+			if (!previous) break
+			const queue = queueRef.current ??= {tail: previous, disposer: makeLoadDisposer()}
+			// a dropped load never calls fn
+			const run = () => queue.disposer.signal.aborted
+				? Promise.reject(queue.disposer.signal.reason)
+				: startLoad(target, fn, params, options)
+			const result = previous.then(run, run)
+			const tail = queue.tail = result.then(() => {}, () => {})
+			void tail.then(() => {
+				if (queueRef.current?.tail === tail) queueRef.current = undefined
+			})
+			return result
+		}
+	}
+	return startLoad(target, fn, params, options)
+}
+
+// dispose the previous load of target, call fn, and reflect its result in target's state
+function startLoad<T, Params extends unknown[]>(
+	{disposerRef, loadingRef, paramsRef, stateRef, setState}: LoadTarget<T>,
+	fn: (disposer: PartialDisposer, ...params: Params) => LoadResult<T>,
+	params: Params,
+	options: RunOptions<T>
+) {
+	const {optimistic, onSuccess, onError, onSettled, onAbort} = options
+	disposerRef.current.dispose()
+	// after the previous load is disposed, so that its optimistic data is rolled back
+	const rollback = settledState(stateRef.current)
+	const disposer = disposerRef.current = makeLoadDisposer()
+	paramsRef.current = params
+	setState(state => optimistic
+		? {...timestamps(state), startedAt: Date.now(), status: 'loading', data: optimistic.data, loading: true}
+		: loadingState(state, options.keepPrevious))
+
+	const event = {name: options.name, params, startedAt: Date.now()}
+	const ended = () => ({...event, duration: Date.now() - event.startedAt})
+	emitLoadEvent({...event, type: 'start'})
+
+	let settled = false
+	const settle = (state: LoadState<T>) => {
+		settled = true
+		setState(prev => ({...timestamps(prev), ...state, progress: prev.progress}))
+	}
+	const succeed = (data: T) => {
+		settle({status: 'success', data, loading: false, updatedAt: Date.now()})
+		callback(onSuccess, data, params)
+		callback(onSettled, data, undefined, params)
+		emitLoadEvent({...ended(), type: 'success', data})
+	}
+	const fail = (error: unknown) => {
+		settle(optimistic ? rollback : {status: 'error', error, loading: false, errorAt: Date.now()})
+		callback(onError, error, params)
+		callback(onSettled, undefined, error, params)
+		emitLoadEvent({...ended(), type: 'error', error})
+	}
+	if (optimistic) disposer.add(() => void (!settled && setState(rollback)))
+	disposer.add(() => {
+		if (settled) return
+		callback(onAbort, disposer.signal.reason, params)
+		emitLoadEvent({...ended(), type: 'abort', reason: disposer.signal.reason})
+	})
+	const progress = (progress: unknown) => void (!settled && !disposer.signal.aborted && setState(state => ({...state, progress})))
+	// each value of a stream replaces data, keeping loading until the stream ends
+	const stream = (data: T) => void (!settled && !disposer.signal.aborted && setState(state => ({
+		...timestamps(state),
+		updatedAt: Date.now(),
+		progress: state.progress,
+		status: 'loading',
+		data,
+		loading: true
+	})))
+
+	try {
+		const call = () => callLoad(fn, disposer, params, progress, stream)
+		const result = call()
+		if (typeof (result as any)?.then === 'function') return loadingRef.current = (async () => {
+			const {timeout} = options
+			let timer: ReturnType<typeof setTimeout> | undefined
+			let timeoutError: TimeoutError | undefined
+			try {
+				const retried = retryLoad(result, call, options.retry, disposer.signal)
+				const data = await (timeout === undefined ? retried : Promise.race([
+					retried,
+					new Promise<never>((_, reject) => {
+						timer = setTimeout(() => reject(timeoutError = new TimeoutError(timeout)), timeout)
+						disposer.add(() => clearTimeout(timer))
+					})
+				]))
+				if (!disposer.signal.aborted) succeed(data)
+				return data
+			} catch (error) {
+				if (!disposer.signal.aborted) {
+					fail(error)
+					if (error === timeoutError) {
+						loadingRef.current = undefined
+						disposer.dispose(error)
+						// an aborted current disposer would mean unmounted
+						disposerRef.current = makeLoadDisposer()
+					}
 				}
-			})()
-			if (!disposer.signal.aborted) {
-				loadingRef.current = undefined
-				setState({data: result as T, loading: false})
+				throw error
+			} finally {
+				clearTimeout(timer)
+				if (!disposer.signal.aborted) loadingRef.current = undefined
 			}
-			return result
+		})()
+		if (!disposer.signal.aborted) {
+			loadingRef.current = undefined
+			succeed(result as T)
+		}
+		return result
+	} catch (error) {
+		if (!disposer.signal.aborted) fail(error)
+		throw error
+	}
+}
+
+// apply optimistic data, and commit the result of fn
+function mutateLoad<T>(
+	target: LoadTarget<T>,
+	optimistic: DataAction<T>,
+	fn: (disposer: PartialDisposer) => T | Promise<T>,
+	options: LoadOptions<T>
+) {
+	try {
+		return Promise.resolve(startLoad(target, fn, [], {
+			...options,
+			optimistic: {data: dataState(target.stateRef.current, optimistic).data as T}
+		}))
+	} catch (error) {
+		return Promise.reject(error)
+	}
+}
+
+// undefined is no initial data
+function initialLoadState<T>(getInitial?: () => T | undefined): LoadState<T> {
+	if (!getInitial) return idleState
+	try {
+		const data = getInitial()
+		return data === undefined ? idleState : {status: 'success', data, loading: false, updatedAt: Date.now()}
+	} catch (error) {
+		return {status: 'error', error, loading: false, errorAt: Date.now()}
+	}
+}
+
+// a load state and its loads, without React. Subscribe a component to it with useLoader()
+export function createLoader<T>(
+	getInitial?: () => T | undefined, // may throw an error
+	options: LoadOptions<T> = {} // overridden by the options of each call
+) {
+	const initialState = initialLoadState(getInitial)
+	const listeners = new Set<() => void>()
+	const target: LoadTarget<T> = {
+		disposerRef: {current: makeLoadDisposer()},
+		loadingRef: {current: undefined},
+		paramsRef: {current: undefined},
+		queueRef: {current: undefined},
+		stateRef: {current: initialState},
+		setState(action) {
+			const state = nextStateFromAction(action, target.stateRef.current)
+			if (state === target.stateRef.current) return
+			target.stateRef.current = state
+			for (const listener of listeners) listener()
+		},
+	}
+
+	return {
+		loadingRef: target.loadingRef,
+		getSnapshot: () => target.stateRef.current,
+		subscribe(listener: () => void) {
+			listeners.add(listener)
+			return () => void listeners.delete(listener)
+		},
+		// call fn as a load of the loader, following the strategy option
+		run<P extends unknown[], R extends LoadResult<T>>(
+			fn: (disposer: PartialDisposer, ...params: P) => R,
+			params: P,
+			runOptions?: LoadOptions<T>
+		) {
+			return runLoad(target, fn, params, {...options, ...runOptions}) as LoadReturn<R>
+		},
+		// replace data without loading. updatedAt is when the data was loaded, e.g. of restored data
+		setData(action: DataAction<T>, updatedAt?: number) {
+			target.setState(state => dataState(state, action, updatedAt))
+		},
+		// apply optimistic data, then commit the result of fn, or roll back if it fails or is superseded
+		mutate(optimistic: DataAction<T>, fn: (disposer: PartialDisposer) => T | Promise<T>, mutateOptions?: LoadOptions<T>) {
+			return mutateLoad(target, optimistic, fn, {...options, ...mutateOptions})
+		},
+		// abort the in-progress and queued loads, keeping data and error
+		abort(reason?: unknown) {
+			abortLoad(target, reason)
+		},
+		// abort, and go back to the getInitial state
+		reset() {
+			abortLoad(target)
+			target.setState(initialState)
+		},
+		// abort the in-progress and queued loads without changing the state, e.g. when the owner unmounts
+		dispose() {
+			disposeLoad(target)
+			target.disposerRef.current = makeLoadDisposer()
+			// exhaust and dedupe never return the aborted load, e.g. when StrictMode runs effects again
+			target.loadingRef.current = undefined
+			target.paramsRef.current = undefined
+		},
+	}
+}
+
+export type Loader<T> = ReturnType<typeof createLoader<T>>
+
+// subscribe to the state of loader
+export function useLoader<T>(loader: Loader<T>): LoadState<T> {
+	return useSyncExternalStore(loader.subscribe, loader.getSnapshot, loader.getSnapshot)
+}
+
+export type LoadKey = string | readonly unknown[]
+
+// deeply equal keys share the same hash regardless of object key order. 'key' and ['key'] are the same key
+function hashKey(key: LoadKey) {
+	return JSON.stringify(typeof key === 'string' ? [key] : key, (_, value) => value && typeof value === 'object' && !Array.isArray(value)
+		? Object.fromEntries(Object.keys(value).sort().map(k => [k, value[k]]))
+		: value)
+}
+
+// 'user' and ['user'] are prefixes of ['user', 1]
+function keyStartsWith(key: LoadKey, prefix: LoadKey) {
+	const keys = typeof key === 'string' ? [key] : key
+	const prefixes = typeof prefix === 'string' ? [prefix] : prefix
+	return hashKey(keys.slice(0, prefixes.length)) === hashKey(prefixes)
+}
+
+// the data of a key in a storage
+export type StoredLoad = {
+	data: unknown
+	updatedAt: number
+	version?: string | number
+}
+
+// where a load cache persists data. Each method may be sync or async
+export type StorageAdapter = {
+	get(hash: string): StoredLoad | undefined | Promise<StoredLoad | undefined>
+	set(hash: string, value: StoredLoad): void | Promise<void>
+	delete(hash: string): void | Promise<void>
+}
+
+// lives as long as the page, e.g. for tests
+export function createMemoryStorage(): StorageAdapter {
+	const values = new Map<string, StoredLoad>()
+	return {
+		get: hash => values.get(hash),
+		set: (hash, value) => void values.set(hash, value),
+		delete: hash => void values.delete(hash),
+	}
+}
+
+// data must be JSON serializable. Does nothing where localStorage is unavailable, e.g. in the server
+export function createLocalStorage({prefix = 'load:', storage}: {
+	prefix?: string // of the localStorage keys
+	storage?: Storage // default: localStorage
+} = {}): StorageAdapter {
+	const getStorage = () => storage ?? (typeof localStorage === 'undefined' ? undefined : localStorage)
+	return {
+		get(hash) {
+			const json = getStorage()?.getItem(prefix + hash)
+			return json == null ? undefined : JSON.parse(json)
+		},
+		set: (hash, value) => getStorage()?.setItem(prefix + hash, JSON.stringify(value)),
+		delete: hash => getStorage()?.removeItem(prefix + hash),
+	}
+}
+
+// a failing storage or channel, e.g. out of quota, never fails loads
+function tryQuietly<R>(fn: () => R | Promise<R>, then: (result: R) => void = () => {}) {
+	try {
+		const result = fn()
+		if (result instanceof Promise) result.then(then, () => {})
+		else then(result)
+	} catch {}
+}
+
+export type LoadCacheOptions = {
+	// restore data of a key when it's first used, and store data of successful loads
+	storage?: StorageAdapter
+	// stored data of another version is dropped, e.g. when the shape of data changes
+	version?: string | number
+	// in ms. Stored data older than maxAge is dropped. Default: Infinity
+	maxAge?: number
+	// share data of successful loads and resets of keys with the caches of other tabs, through a BroadcastChannel
+	// a string is the channel name. Default channel: 'load'
+	broadcast?: boolean | string
+	// in ms. Data older than staleTime is reloaded when a component using its key mounts. Default: Infinity
+	staleTime?: number
+	// in ms. A key is dropped gcTime after the last component using it unmounts, or after it's used without a component
+	// a key is never dropped while it's loading. Default: Infinity
+	gcTime?: number
+	// beyond maxEntries, the least recently used keys without a component are dropped. Default: Infinity
+	maxEntries?: number
+}
+
+// a message between the caches of tabs. at is updatedAt of data, or when the key was reset or invalidated
+type LoadCacheMessage =
+	| {type: 'data', hash: string, data: unknown, at: number}
+	| {type: 'reset', hash: string, at: number}
+	| {type: 'invalidate', prefix: LoadKey, at: number}
+	| {type: 'invalidateTags', tags: string[], at: number}
+
+export type KeyedLoadOptions<T = any> = LoadOptions<T> & {
+	// the key is invalidated by cache.invalidateTags() with any of the tags
+	// tags of all loads of the key are merged, and tags of mounted components are added
+	tags?: string[]
+}
+
+// the loader of a key
+export type LoadCacheEntry<T> = Loader<T> & {key: LoadKey}
+
+export function createLoadCache({
+	storage,
+	version,
+	maxAge = Infinity,
+	broadcast,
+	staleTime = Infinity,
+	gcTime = Infinity,
+	maxEntries = Infinity,
+}: LoadCacheOptions = {}) {
+	// in the order of use, the least recently used first
+	const entries = new Map<string, LoadCacheEntry<any>>()
+	// keys whose data should be reloaded regardless of staleTime, e.g. invalidated or restored from storage
+	const stale = new Set<string>()
+	// updatedAt of the data of keys that is stored and broadcast, or came from storage or another tab
+	const syncedAt = new Map<string, number>()
+	// revalidate functions of the mounted keys, and the tags of each
+	const watchers = new Map<string, Map<() => void, readonly string[]>>()
+	// tags of the loads of keys, merged
+	const keyTags = new Map<string, Set<string>>()
+	// subscriber counts of entries, i.e. the components using them
+	const subscribers = new Map<LoadCacheEntry<any>, number>()
+	const gcTimers = new Map<LoadCacheEntry<any>, ReturnType<typeof setTimeout>>()
+	const channel = broadcast && typeof BroadcastChannel !== 'undefined'
+		? new BroadcastChannel(typeof broadcast === 'string' ? broadcast : 'load')
+		: undefined
+	// data that can't be cloned is not sent
+	const post = (message: LoadCacheMessage) => tryQuietly(() => channel?.postMessage(message))
+
+	function getEntry<T>(key: LoadKey): LoadCacheEntry<T> {
+		const hash = hashKey(key)
+		const entry = entries.get(hash) ?? createEntry<T>(hash, key)
+		entries.delete(hash)
+		entries.set(hash, entry)
+		dropLeastRecentlyUsed(entry)
+		return entry
+	}
+
+	function createEntry<T>(hash: string, key: LoadKey) {
+		const loader = createLoader<T>()
+		const entry: LoadCacheEntry<T> = {
+			...loader,
+			key,
+			subscribe(listener) {
+				// a component may subscribe to an entry dropped after it rendered
+				if (!entries.has(hash)) entries.set(hash, entry)
+				subscribers.set(entry, (subscribers.get(entry) ?? 0) + 1)
+				clearTimeout(gcTimers.get(entry))
+				const unsubscribe = loader.subscribe(listener)
+				let subscribed = true
+				return () => {
+					if (!subscribed) return
+					subscribed = false
+					unsubscribe()
+					const count = (subscribers.get(entry) ?? 1) - 1
+					if (count) subscribers.set(entry, count)
+					else {
+						subscribers.delete(entry)
+						dropLater(hash, entry)
+					}
+				}
+			},
+		}
+		entries.set(hash, entry)
+		sync(hash, entry, loader.subscribe)
+		dropLater(hash, entry)
+		return entry
+	}
+
+	function drop(hash: string) {
+		const entry = entries.get(hash)!
+		clearTimeout(gcTimers.get(entry))
+		gcTimers.delete(entry)
+		subscribers.delete(entry)
+		entry.dispose()
+		entries.delete(hash)
+		stale.delete(hash)
+		syncedAt.delete(hash)
+		keyTags.delete(hash)
+	}
+
+	// drop entry gcTime later, unless it's subscribed meanwhile
+	function dropLater(hash: string, entry: LoadCacheEntry<any>) {
+		if (gcTime === Infinity) return
+		clearTimeout(gcTimers.get(entry))
+		gcTimers.set(entry, setTimeout(() => {
+			if (entries.get(hash) !== entry || subscribers.get(entry)) return
+			if (entry.loadingRef.current) dropLater(hash, entry)
+			else drop(hash)
+		}, gcTime))
+	}
+
+	// current is the entry in use
+	function dropLeastRecentlyUsed(current: LoadCacheEntry<any>) {
+		for (const [hash, entry] of entries) {
+			if (entries.size <= maxEntries) return
+			if (entry !== current && !subscribers.get(entry) && !entry.loadingRef.current) drop(hash)
+		}
+	}
+
+	// subscribe keeps entry from being dropped
+	function sync<T>(hash: string, entry: LoadCacheEntry<T>, subscribe: Loader<T>['subscribe']) {
+		subscribe(() => {
+			const state = entry.getSnapshot()
+			if (state.status !== 'success' || state.updatedAt === syncedAt.get(hash)) return
+			syncedAt.set(hash, state.updatedAt!)
+			stale.delete(hash)
+			if (storage) tryQuietly(() => storage.set(hash, {data: state.data, updatedAt: state.updatedAt!, version}))
+			post({type: 'data', hash, data: state.data, at: state.updatedAt!})
+		})
+		if (!storage) return
+		tryQuietly(() => storage.get(hash), stored => {
+			if (!stored) return
+			if (stored.version !== version || Date.now() - stored.updatedAt > maxAge) return tryQuietly(() => storage.delete(hash))
+			// a load, setData or another tab was faster than an async storage
+			if (entries.get(hash) !== entry || 'data' in entry.getSnapshot()) return
+			syncedAt.set(hash, stored.updatedAt)
+			// with staleTime, the age of restored data decides whether it's reloaded
+			if (staleTime === Infinity) stale.add(hash)
+			entry.setData(stored.data as T, stored.updatedAt)
+		})
+	}
+
+	// mark data of matching keys stale, and revalidate the mounted ones
+	// keys loaded after an invalidation of another tab are kept
+	function invalidate(match: (hash: string, key: LoadKey) => boolean, since?: number) {
+		// a reload moves the entry to the end of entries
+		for (const [hash, entry] of [...entries]) {
+			if (!match(hash, entry.key)) continue
+			const {updatedAt = -Infinity, startedAt = -Infinity} = entry.getSnapshot()
+			if (since !== undefined && (updatedAt > since || startedAt > since)) continue
+			stale.add(hash)
+			// one reload serves every component using the key
+			const [revalidate] = watchers.get(hash)?.keys() ?? []
+			revalidate?.()
+		}
+	}
+
+	const byPrefix = (prefix: LoadKey) => (_: string, key: LoadKey) => keyStartsWith(key, prefix)
+	// tags of a key come from its loads and its mounted components, whether they loaded or not
+	const byTags = (tags: string[]) => (hash: string) => {
+		const watched = [...watchers.get(hash)?.values() ?? []]
+		return tags.some(tag => keyTags.get(hash)?.has(tag) || watched.some(watchedTags => watchedTags.includes(tag)))
+	}
+
+	// messages older than the data of the key are dropped, so that a slow tab never overwrites newer data
+	channel?.addEventListener('message', ({data: message}: MessageEvent<LoadCacheMessage>) => {
+		if (message.type === 'invalidate') return invalidate(byPrefix(message.prefix), message.at)
+		if (message.type === 'invalidateTags') return invalidate(byTags(message.tags), message.at)
+		const entry = entries.get(message.hash)
+		if (!entry) return
+		const {updatedAt = -Infinity, startedAt = -Infinity} = entry.getSnapshot()
+		// a load started after the reset is kept
+		if (updatedAt >= message.at || (message.type === 'reset' && startedAt >= message.at)) return
+		if (message.type === 'reset') return entry.reset()
+		// the data is neither stored nor broadcast again
+		syncedAt.set(message.hash, message.at)
+		stale.delete(message.hash)
+		entry.setData(message.data, message.at)
+	})
+
+	function run<T, K extends LoadKey>(
+		key: K,
+		fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>,
+		options: KeyedLoadOptions<T>
+	) {
+		if (options.tags) {
+			const hash = hashKey(key)
+			keyTags.set(hash, new Set([...keyTags.get(hash) ?? [], ...options.tags]))
+		}
+		try {
+			return Promise.resolve(getEntry<T>(key).run(fetcher, [key], options) as T | Promise<T>)
 		} catch (error) {
-			if (!disposer.signal.aborted) setState({error, loading: false})
-			throw error
+			return Promise.reject(error)
 		}
-	}, [])
+	}
+
+	// stored data is kept
+	function clear() {
+		const cleared = [...entries.values()]
+		for (const timer of gcTimers.values()) clearTimeout(timer)
+		gcTimers.clear()
+		subscribers.clear()
+		entries.clear()
+		stale.clear()
+		syncedAt.clear()
+		keyTags.clear()
+		// mounted components get the idle state, and load their key again in a new entry
+		for (const entry of cleared) entry.reset()
+	}
+
+	return {
+		entry: getEntry,
+		get<T>(key: LoadKey): LoadState<T> {
+			return entries.get(hashKey(key))?.getSnapshot() ?? idleState
+		},
+		// whether data of key should be reloaded when used, e.g. older than staleTime or invalidated
+		isStale(key: LoadKey) {
+			const hash = hashKey(key)
+			const updatedAt = entries.get(hash)?.getSnapshot().updatedAt
+			return stale.has(hash) || (updatedAt !== undefined && Date.now() - updatedAt > staleTime)
+		},
+		// share the in-flight load of key if any
+		load<T, K extends LoadKey>(
+			key: K,
+			fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>,
+			options?: KeyedLoadOptions<T>
+		): Promise<T> {
+			return run(key, fetcher, {...options, strategy: 'dedupe'})
+		},
+		// abort the in-flight load of key if any, unless options.strategy says otherwise
+		reload<T, K extends LoadKey>(
+			key: K,
+			fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>,
+			options?: KeyedLoadOptions<T>
+		): Promise<T> {
+			return run(key, fetcher, {strategy: 'replace', ...options})
+		},
+		// mark data of the keys starting with prefix stale, and reload the mounted ones
+		invalidate(prefix: LoadKey) {
+			invalidate(byPrefix(prefix))
+			post({type: 'invalidate', prefix, at: Date.now()})
+		},
+		// mark data of the keys loaded with any of tags stale, and reload the mounted ones
+		invalidateTags(tags: string[]) {
+			invalidate(byTags(tags))
+			post({type: 'invalidateTags', tags, at: Date.now()})
+		},
+		// revalidate is called when key is invalidated, by its prefix or any of tags, e.g. to reload key from a mounted component
+		watch(key: LoadKey, revalidate: () => void, tags: readonly string[] = []) {
+			const hash = hashKey(key)
+			const revalidates = watchers.get(hash) ?? new Map()
+			watchers.set(hash, revalidates.set(revalidate, tags))
+			return () => {
+				revalidates.delete(revalidate)
+				if (!revalidates.size) watchers.delete(hash)
+			}
+		},
+		// abort the in-flight load of key if any, keeping data and error
+		abort(key: LoadKey, reason?: unknown) {
+			entries.get(hashKey(key))?.abort(reason)
+		},
+		// abort the in-flight load of key if any, and make key idle
+		reset(key: LoadKey) {
+			const hash = hashKey(key)
+			entries.get(hash)?.reset()
+			post({type: 'reset', hash, at: Date.now()})
+		},
+		// replace data of key without loading
+		set<T>(key: LoadKey, action: DataAction<T>) {
+			getEntry<T>(key).setData(action)
+		},
+		// apply optimistic data to key, then commit the result of fn, or roll back if it fails or is superseded
+		mutate<T>(
+			key: LoadKey,
+			optimistic: DataAction<T>,
+			fn: (disposer: PartialDisposer) => T | Promise<T>,
+			options?: LoadOptions<T>
+		): Promise<T> {
+			return getEntry<T>(key).mutate(optimistic, fn, options)
+		},
+		clear,
+		// clear, and stop broadcasting
+		dispose() {
+			clear()
+			channel?.close()
+		},
+	}
+}
+
+export type LoadCache = ReturnType<typeof createLoadCache>
+
+const LoadCacheContext = createContext<LoadCache>(createLoadCache())
+
+export function LoadCacheProvider({cache, children}: {cache?: LoadCache, children?: ReactNode}) {
+	const [ownCache] = useState(createLoadCache)
+	return createElement(LoadCacheContext.Provider, {value: cache ?? ownCache}, children)
+}
+
+export function useLoadCache() {
+	return useContext(LoadCacheContext)
+}
+
+export function useLoad<T, K extends LoadKey = LoadKey>(
+	key: K,
+	fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>,
+	options?: KeyedLoadOptions<T>
+): LoadState<T> & {
+	loadingRef: RefObject<Promise<T> | undefined>
+	reload(): Promise<T>
+	setData(action: DataAction<T>): void
+	mutate(optimistic: DataAction<T>, fn: (disposer: PartialDisposer) => T | Promise<T>): Promise<T>
+	abort(reason?: unknown): void // abort the in-progress load, keeping data and error
+	reset(): void // abort the in-progress load, and go back to the idle state
+}
+// the result of cb must be assignable to T, and its params to Params
+export function useLoad<T, Params extends unknown[] = unknown[]>(
+	getInitial?: () => T | undefined, // may throw an error
+	options?: LoadOptions<T>
+): LoadState<T> & {
+	loadingRef: RefObject<Promise<T> | undefined>
+	loadAbortable<P extends Params, R extends LoadResult<T>>(
+		cb: (disposer: PartialDisposer, ...params: P) => R,
+		options?: LoadCallOptions
+	): (...params: P) => LoadReturn<R>
+	load<P extends Params, R extends LoadResult<T>>(cb: (...params: P) => R, options?: LoadCallOptions): (...params: P) => LoadReturn<R>
+	setData(action: DataAction<T>): void
+	mutate(optimistic: DataAction<T>, fn: (disposer: PartialDisposer) => T | Promise<T>): Promise<T>
+	abort(reason?: unknown): void // abort the in-progress and queued loads, keeping data and error
+	reset(): void // abort the in-progress and queued loads, and go back to the getInitial state
+}
+
+export function useLoad(...args: any[]) {
+	// a component never switches between the keyed and the non-keyed forms
+	return typeof args[0] === 'string' || Array.isArray(args[0])
+		? useKeyedLoad(args[0], args[1], args[2])
+		: useInstanceLoad(args[0], args[1])
+}
+
+function listen(target: EventTarget, type: string, listener: () => void, add: Disposer['add']) {
+	target.addEventListener(type, listener)
+	add(() => target.removeEventListener(type, listener))
+}
+
+// call revalidate() on the schedules and events of options
+function useRevalidate(
+	revalidate: () => unknown,
+	loadingRef: RefObject<Promise<unknown> | undefined>,
+	{refreshInterval, revalidateOnFocus, revalidateOnReconnect, revalidateThrottle = 5000}: LoadOptions
+) {
+	const revalidateRef = useRefValue(revalidate)
+	useEffect(() => {
+		const {add, dispose} = makeDisposer()
+		const run = () => {
+			try {
+				// the error lands in the state
+				Promise.resolve(revalidateRef.current()).catch(() => {})
+			} catch {
+			}
+		}
+
+		if (refreshInterval) {
+			const timer = setInterval(() => {
+				if (document.visibilityState !== 'hidden' && !loadingRef.current) run()
+			}, refreshInterval)
+			add(() => clearInterval(timer))
+		}
+
+		let lastRevalidatedAt = -Infinity
+		const onEvent = () => {
+			if (document.visibilityState === 'hidden' || loadingRef.current || Date.now() - lastRevalidatedAt < revalidateThrottle) return
+			lastRevalidatedAt = Date.now()
+			run()
+		}
+		if (revalidateOnFocus) {
+			listen(window, 'focus', onEvent, add)
+			listen(document, 'visibilitychange', onEvent, add)
+		}
+		if (revalidateOnReconnect) listen(window, 'online', onEvent, add)
+
+		return dispose
+	}, [loadingRef, refreshInterval, revalidateOnFocus, revalidateOnReconnect, revalidateRef, revalidateThrottle])
+}
+
+function useKeyedLoad<T, K extends LoadKey>(
+	key: K,
+	fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>,
+	options: KeyedLoadOptions<T> = {}
+) {
+	const cache = useLoadCache()
+	const entry = cache.entry<T>(key)
+	const fetcherRef = useRefValue(fetcher)
+	const optionsRef = useRefValue(options)
+	const state = useLoader(entry)
 
-	const load: any = useCallback((fn: (...params: Params) => T | Promise<T>) => (...params: Params) => loadAbortable(() => fn(...params))(), [loadAbortable])
+	useEffect(() => {
+		const stale = cache.isStale(entry.key)
+		if ('data' in entry.getSnapshot() && !stale) return
+		// stale data is shown while reloading. The error lands in the state
+		const options = latestOptions(optionsRef)
+		cache.load(entry.key as K, (...params) => fetcherRef.current(...params), stale ? revalidateOptions(options) : options).catch(() => {})
+	}, [cache, entry, fetcherRef, optionsRef])
+
+	const reload = useCallback(
+		() => cache.reload(entry.key as K, (...params) => fetcherRef.current(...params), latestOptions(optionsRef)),
+		[cache, entry, fetcherRef, optionsRef]
+	)
+	const setData = useCallback((action: DataAction<T>) => cache.set(entry.key, action), [cache, entry])
+	const mutate = useCallback(
+		(optimistic: DataAction<T>, fn: (disposer: PartialDisposer) => T | Promise<T>) => cache.mutate(entry.key, optimistic, fn, latestOptions(optionsRef)),
+		[cache, entry, optionsRef]
+	)
+	const abort = useCallback((reason?: unknown) => cache.abort(entry.key, reason), [cache, entry])
+	const reset = useCallback(() => cache.reset(entry.key), [cache, entry])
+
+	const tags = useDeepMemo(options.tags)
+	useEffect(() => cache.watch(
+		entry.key,
+		// the error lands in the state
+		() => void cache.reload(entry.key as K, (...params) => fetcherRef.current(...params), revalidateOptions(latestOptions(optionsRef))).catch(() => {}),
+		tags
+	), [cache, entry, fetcherRef, optionsRef, tags])
+
+	useRevalidate(
+		() => cache.reload(entry.key as K, (...params) => fetcherRef.current(...params), revalidateOptions(latestOptions(optionsRef))),
+		entry.loadingRef,
+		options
+	)
+
+	return {...state, loadingRef: entry.loadingRef, reload, setData, mutate, abort, reset}
+}
+
+// data is always available: suspend while loading, and throw error to the ErrorBoundary
+export function useLoadSuspense<T, K extends LoadKey = LoadKey>(
+	key: K,
+	fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>,
+	options?: KeyedLoadOptions<T>
+): LoadStateMeta & {
+	data: T
+	status: 'success' | 'loading'
+	loading: boolean // reloading
+	loadingRef: RefObject<Promise<T> | undefined>
+	reload(): Promise<T>
+	setData(action: DataAction<T>): void
+	mutate(optimistic: DataAction<T>, fn: (disposer: PartialDisposer) => T | Promise<T>): Promise<T>
+	abort(reason?: unknown): void // abort the in-progress reload
+} {
+	const cache = useLoadCache()
+	const {data, error, ...rest} = useKeyedLoad(key, fetcher, options)
+	const state = cache.entry<T>(key).getSnapshot()
+	if ('data' in state) return {...rest, status: state.loading ? 'loading' : 'success', data: state.data as T}
+	if ('error' in state && !state.loading) throw state.error
+	throw cache.load(key, fetcher, options)
+}
+
+// pages are appended by loadNext(). error is the error of the next page
+export function useLoadMore<Page, Cursor = number>(
+	fetchPage: (disposer: PartialDisposer, cursor: Cursor | undefined, pages: Page[]) => Page | Promise<Page>, // cursor is undefined for the first page
+	getNextCursor: (lastPage: Page, pages: Page[]) => Cursor | undefined, // undefined if there is no more page
+	options?: Omit<LoadOptions<Page | undefined>, 'refreshInterval' | 'revalidateOnFocus' | 'revalidateOnReconnect'> // re-running the last load would load the next page
+) {
+	const {loading, error, progress, loadAbortable, reset: resetLoad} = useLoad<Page | undefined, []>(undefined, {strategy: 'exhaust', ...options})
+	const [pages, setPages, pagesRef] = useRefState<Page[]>([])
+	const fetchPageRef = useRefValue(fetchPage)
+	const getNextCursorRef = useRefValue(getNextCursor)
+
+	const loadNext = useCallback(() => loadAbortable(async (disposer: PartialDisposer) => {
+		const pages = pagesRef.current
+		const cursor = pages.length ? getNextCursorRef.current(pages[pages.length - 1], pages) : undefined
+		if (pages.length && cursor === undefined) return
+		const page = await fetchPageRef.current(disposer, cursor, pages)
+		// an unmounted or reset list never appends a stale page
+		if (!disposer.signal.aborted) setPages([...pages, page])
+		return page
+	})(), [fetchPageRef, getNextCursorRef, loadAbortable, pagesRef, setPages])
+
+	// abort the in-progress page, and remove all pages
+	const reset = useCallback(() => {
+		resetLoad()
+		setPages([])
+	}, [resetLoad, setPages])
+
+	return {
+		pages,
+		loading,
+		error,
+		progress,
+		hasMore: !pages.length || getNextCursor(pages[pages.length - 1], pages) !== undefined,
+		loadNext,
+		reset,
+	}
+}
+
+// independent loads per key, e.g. per-row actions of a table. A load only aborts the previous load of the same key
+export function useLoads<Key, T = unknown>(
+	options: Omit<LoadOptions<T>, 'refreshInterval' | 'revalidateOnFocus' | 'revalidateOnReconnect'> = {}
+) {
+	const optionsRef = useRefValue(options)
+	const [states, setStates] = useRefState<ReadonlyMap<Key, LoadState<T>>>(new Map())
+	const [slots] = useState(() => new Map<Key, Loader<T>>())
+
+	useEffect(() => () => {
+		for (const slot of slots.values()) slot.dispose()
+	}, [slots])
+
+	const getSlot = useCallback((key: Key) => {
+		let slot = slots.get(key)
+		if (!slot) {
+			const loader = slot = createLoader<T>()
+			slots.set(key, loader)
+			loader.subscribe(() => setStates(states => new Map(states).set(key, loader.getSnapshot())))
+		}
+		return slot
+	}, [setStates, slots])
+
+	const get = useCallback((key: Key): LoadState<T> => states.get(key) ?? idleState, [states])
+	const loadAbortable = useCallback(<P extends unknown[], R extends LoadResult<T>>(
+		key: Key,
+		fn: (disposer: PartialDisposer, ...params: P) => R,
+		callOptions?: LoadCallOptions
+	) => (...params: P) => getSlot(key).run(fn, params, {...latestOptions(optionsRef), ...callOptions}), [getSlot, optionsRef])
+	const abort = useCallback((key: Key, reason?: unknown) => slots.get(key)?.abort(reason), [slots])
+	// abort the load of key, and make key idle
+	const reset = useCallback((key: Key) => slots.get(key)?.reset(), [slots])
+
+	return {
+		get,
+		loadAbortable,
+		isAnyLoading: [...states.values()].some(state => state.loading),
+		abort,
+		reset,
+	}
+}
+
+export type LoadEffectOptions<T> = LoadOptions<T> & {
+	enabled?: boolean // default: true. No load runs while false
+	deepDeps?: boolean // compare deps deeply, instead of with Object.is
+	getInitial?: () => T | undefined // same as getInitial of useLoad()
+	skipInitialLoad?: boolean // skip the first load if getInitial returns data, e.g. hydrated from SSR
+}
+
+function shallowEqual(a: readonly unknown[], b: readonly unknown[]) {
+	return a.length === b.length && a.every((value, i) => Object.is(value, b[i]))
+}
+
+// load on mount, and whenever deps change
+export function useLoadEffect<T>(
+	fn: (disposer: PartialDisposer) => LoadResult<T>,
+	deps: readonly unknown[],
+	{enabled = true, deepDeps, getInitial, skipInitialLoad, ...options}: LoadEffectOptions<T> = {}
+) {
+	const {loadAbortable, load, ...rest} = useLoad<T, []>(getInitial, options)
+	const [hydrated] = useState(() => rest.status === 'success')
+	const fnRef = useRefValue(fn)
+	const memoDeps = useDeepMemo(deps, deepDeps ? deepEqual : shallowEqual)
+	// skipInitialLoad skips loads while deps stay the initial ones, including the effect run twice by StrictMode
+	const skippedDepsRef = useRef(hydrated && skipInitialLoad ? memoDeps : undefined)
+
+	const reload = useCallback(() => new Promise<T>(resolve => resolve(
+		loadAbortable((disposer: PartialDisposer) => fnRef.current(disposer))() as T | Promise<T>
+	)), [fnRef, loadAbortable])
+	useEffect(() => {
+		const skipped = enabled && skippedDepsRef.current === memoDeps
+		if (!skipped) skippedDepsRef.current = undefined
+		if (!enabled || skipped) return
+		reload().catch(() => {}) // the error lands in the state
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [memoDeps, enabled])
+
+	return {...rest, reload}
+}
+
+export type SSRData = Record<string, unknown>
+
+// server: collect the loads started by getInitial of useSSRLoad()s, and serialize their results
+// client: hydrate useSSRLoad()s with the serialized results
+export function createSSRStore({
+	data = {},
+	server = typeof window === 'undefined'
+}: {
+	data?: SSRData // serialized results, in the client
+	server?: boolean
+} = {}) {
+	const results = new Map<string, {data: unknown} | {error: unknown}>(Object.entries(data).map(([hash, data]) => [hash, {data}]))
+	const pending = new Map<string, Promise<void>>()
+
+	return {
+		server,
+		has(key: LoadKey) {
+			const result = results.get(hashKey(key))
+			return !!result && 'data' in result
+		},
+		// return the result of key. In the server, start loading key if it has no result yet
+		read<T, K extends LoadKey>(key: K, fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>): T | undefined {
+			const hash = hashKey(key)
+			const result = results.get(hash)
+			if (result) {
+				if ('error' in result) throw result.error
+				return result.data as T
+			}
+			if (server && !pending.has(hash)) {
+				pending.set(hash, Promise.resolve()
+					.then(() => fetcher(partialDisposer(makeLoadDisposer()), key))
+					.then(data => void results.set(hash, {data}), error => void results.set(hash, {error}))
+					.finally(() => pending.delete(hash)))
+			}
+		},
+		delete(key: LoadKey) {
+			results.delete(hashKey(key))
+		},
+		// wait for the pending loads. Resolve true if there were any, i.e., the app needs to be rendered again
+		async wait() {
+			if (!pending.size) return false
+			await Promise.all(pending.values())
+			return true
+		},
+		// JSON of the loaded data, safe to be inlined in a <script>. Errors are not serialized, the client loads them again
+		serialize() {
+			const data: SSRData = {}
+			for (const [hash, result] of results) if ('data' in result) data[hash] = result.data
+			return JSON.stringify(data).replace(/</g, '\\u003c')
+		},
+	}
+}
+
+export type SSRStore = ReturnType<typeof createSSRStore>
+
+const SSRStoreContext = createContext<SSRStore | undefined>(undefined)
+
+export function SSRStoreProvider({store, children}: {store: SSRStore, children?: ReactNode}) {
+	return createElement(SSRStoreContext.Provider, {value: store}, children)
+}
+
+// load on mount and when key deeply changes, unless the data of key is available from SSR
+export function useSSRLoad<T, K extends LoadKey = LoadKey>(
+	key: K,
+	fetcher: (disposer: PartialDisposer, key: K) => T | Promise<T>,
+	options?: LoadOptions<T>
+) {
+	const store = useContext(SSRStoreContext)
+	const [hydrated] = useState(() => !!store?.has(key))
+	const {loadAbortable, load, ...rest} = useLoad<T, [K]>(() => store?.read(key, fetcher), options)
+	const hash = hashKey(key)
+	// the key whose hydrated data is shown, until another key is loaded. StrictMode's second effect run sees it too
+	const hydratedHashRef = useRef(hydrated ? hash : undefined)
+	const keyRef = useRefValue(key)
+	const fetcherRef = useRefValue(fetcher)
+
+	const reload = useCallback(() => new Promise<T>(resolve => resolve(
+		loadAbortable((disposer: PartialDisposer, key: K) => fetcherRef.current(disposer, key))(keyRef.current) as T | Promise<T>
+	)), [fetcherRef, keyRef, loadAbortable])
+	useEffect(() => {
+		// SSR data is used once, components mounted later load again
+		store?.delete(keyRef.current)
+		if (hydratedHashRef.current === hash) return
+		hydratedHashRef.current = undefined
+		reload().catch(() => {}) // the error lands in the state
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [hash])
+
+	return {...rest, reload}
+}
+
+function useInstanceLoad<T, Params extends unknown[]>(
+	getInitial?: () => T | undefined,
+	options: LoadOptions<T> = {}
+) {
+	const optionsRef = useRefValue(options)
+	const [loader] = useState(() => createLoader(getInitial))
+	const state = useLoader(loader)
+
+	useEffect(() => loader.dispose, [loader])
+
+	const lastLoadRef = useRef<() => unknown>(undefined)
+	const loadAbortable = useCallback(<P extends Params, R extends LoadResult<T>>(
+		fn: (disposer: PartialDisposer, ...params: P) => R,
+		callOptions?: LoadCallOptions
+	) => (...params: P) => {
+		lastLoadRef.current = () => loader.run(fn, params, revalidateOptions({...latestOptions(optionsRef), ...callOptions}))
+		return loader.run(fn, params, {...latestOptions(optionsRef), ...callOptions})
+	}, [loader, optionsRef])
+	useRevalidate(() => lastLoadRef.current?.(), loader.loadingRef, options)
+
+	const load = useCallback(<P extends Params, R extends LoadResult<T>>(
+		fn: (...params: P) => R,
+		callOptions?: LoadCallOptions
+	) => loadAbortable((_: PartialDisposer, ...params: P) => fn(...params), callOptions), [loadAbortable])
+
+	const mutate = useCallback(
+		(optimistic: DataAction<T>, fn: (disposer: PartialDisposer) => T | Promise<T>) => loader.mutate(optimistic, fn, latestOptions(optionsRef)),
+		[loader, optionsRef]
+	)
+	const reset = useCallback(() => {
+		loader.reset()
+		lastLoadRef.current = undefined // a reset load is not revalidated
+	}, [loader])
 
-	return {...state, loadingRef, loadAbortable, load}
+	return {...state, loadingRef: loader.loadingRef, loadAbortable, load, setData: loader.setData, mutate, abort: loader.abort, reset}
 }
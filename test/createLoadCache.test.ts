@@ -0,0 +1,663 @@
+import {afterEach, beforeEach, describe, expect, test, vi} from 'vitest'
+import {createElement, ReactNode} from 'react'
+import {act, renderHook, waitFor} from '@testing-library/react'
+import {createLoadCache, createLocalStorage, createMemoryStorage, LoadCache, LoadCacheProvider, StorageAdapter, StoredLoad, useLoad, useLoadCache} from '../index'
+
+describe('createLoadCache', () => {
+	test('get returns idle state for unknown key', () => {
+		const cache = createLoadCache()
+
+		expect(cache.get(['unknown'])).toEqual({status: 'idle', loading: false})
+	})
+
+	test('load shares the in-flight promise', async () => {
+		const cache = createLoadCache()
+		const fetcher = vi.fn(async () => {
+			await new Promise(resolve => setTimeout(resolve, 10))
+			return 'data'
+		})
+
+		const promise1 = cache.load(['key'], fetcher)
+		const promise2 = cache.load(['key'], fetcher)
+
+		expect(promise1).toBe(promise2)
+		expect(cache.get(['key']).loading).toBe(true)
+		expect(await promise1).toBe('data')
+		expect(fetcher).toHaveBeenCalledTimes(1)
+		expect(cache.get(['key'])).toMatchObject({status: 'success', data: 'data', loading: false})
+	})
+
+	test('fetcher receives the disposer and the key', async () => {
+		const cache = createLoadCache()
+		const fetcher = vi.fn((disposer, key: readonly [string, number]) => key[1])
+
+		expect(await cache.load(['user', 1] as const, fetcher)).toBe(1)
+		expect(fetcher.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal)
+	})
+
+	test('reload aborts the in-flight load', async () => {
+		const cache = createLoadCache()
+		let firstSignal: AbortSignal | undefined
+
+		void cache.load(['key'], async ({signal}) => {
+			firstSignal = signal
+			await new Promise(resolve => setTimeout(resolve, 10))
+			return 'first'
+		})
+		const promise = cache.reload(['key'], async () => 'second')
+
+		expect(firstSignal!.aborted).toBe(true)
+		expect(await promise).toBe('second')
+		await new Promise(resolve => setTimeout(resolve, 20))
+		expect(cache.get(['key'])).toMatchObject({status: 'success', data: 'second', loading: false})
+	})
+
+	test('errors are stored and the promise rejects', async () => {
+		const cache = createLoadCache()
+		const error = new Error('failed')
+
+		await expect(cache.load(['key'], () => {
+			throw error
+		})).rejects.toBe(error)
+		expect(cache.get(['key'])).toMatchObject({status: 'error', error, loading: false})
+	})
+
+	test('keys are compared deeply', async () => {
+		const cache = createLoadCache()
+
+		await cache.load(['user', {id: 1, role: 'admin'}], () => 'data')
+
+		expect(cache.get(['user', {role: 'admin', id: 1}]).data).toBe('data')
+		expect(cache.get(['user', {id: 2, role: 'admin'}]).data).toBeUndefined()
+	})
+
+	test('string key equals single element array key', async () => {
+		const cache = createLoadCache()
+
+		await cache.load('key', () => 'data')
+
+		expect(cache.get(['key']).data).toBe('data')
+	})
+
+	test('clear aborts in-flight loads and drops entries', async () => {
+		const cache = createLoadCache()
+		let signal: AbortSignal | undefined
+
+		void cache.load(['key'], disposer => {
+			signal = disposer.signal
+			return new Promise<string>(() => {})
+		})
+		cache.clear()
+
+		expect(signal!.aborted).toBe(true)
+		expect(cache.get(['key'])).toEqual({status: 'idle', loading: false})
+	})
+
+	test('clear makes mounted components load their key again', async () => {
+		const cache = createLoadCache()
+		const resolves: ((data: string) => void)[] = []
+		const fetcher = () => new Promise<string>(resolve => resolves.push(resolve))
+		const {result} = renderHook(() => useLoad('loading', fetcher), {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, {cache}, children)
+		})
+		const {result: settled} = renderHook(() => useLoad('settled', async () => `settled ${resolves.length}`), {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, {cache}, children)
+		})
+		await waitFor(() => expect(settled.current.data).toBe('settled 1'))
+
+		act(() => cache.clear())
+		expect(resolves).toHaveLength(2)
+		expect(result.current.loading).toBe(true)
+
+		await act(async () => resolves[1]('loaded again'))
+		expect(result.current).toMatchObject({status: 'success', data: 'loaded again', loading: false})
+		await waitFor(() => expect(settled.current.data).toBe('settled 2'))
+	})
+
+	test('abort aborts the in-flight load and keeps data', async () => {
+		const cache = createLoadCache()
+		cache.set(['key'], 'data')
+		let signal: AbortSignal | undefined
+
+		void cache.reload(['key'], disposer => {
+			signal = disposer.signal
+			return new Promise<string>(() => {})
+		}, {keepPrevious: true})
+		cache.abort(['key'], 'cancelled')
+
+		expect(signal!.reason).toBe('cancelled')
+		expect(cache.get(['key'])).toMatchObject({status: 'success', data: 'data', loading: false})
+		expect(cache.entry(['key']).loadingRef.current).toBeUndefined()
+	})
+
+	test('reset aborts the in-flight load and makes key idle', async () => {
+		const cache = createLoadCache()
+		cache.set(['key'], 'data')
+		let signal: AbortSignal | undefined
+
+		void cache.reload(['key'], disposer => {
+			signal = disposer.signal
+			return new Promise<string>(() => {})
+		})
+		cache.reset(['key'])
+
+		expect(signal!.aborted).toBe(true)
+		expect(cache.get(['key'])).toEqual({status: 'idle', loading: false})
+	})
+
+	test('set replaces data of key', async () => {
+		const cache = createLoadCache()
+
+		cache.set(['key'], 1)
+		cache.set<number>(['key'], data => data! + 1)
+
+		expect(cache.get(['key'])).toMatchObject({status: 'success', data: 2, loading: false})
+	})
+
+	test('mutate applies optimistic data and rolls back on failure', async () => {
+		const cache = createLoadCache()
+		cache.set(['key'], 'previous')
+
+		const promise = cache.mutate(['key'], 'optimistic', async () => {
+			throw new Error('failed')
+		})
+
+		expect(cache.get(['key'])).toMatchObject({status: 'loading', data: 'optimistic', loading: true})
+		await expect(promise).rejects.toThrow('failed')
+		expect(cache.get(['key'])).toMatchObject({status: 'success', data: 'previous', loading: false})
+	})
+
+	test('entry notifies subscribers', async () => {
+		const cache = createLoadCache()
+		const listener = vi.fn()
+
+		const unsubscribe = cache.entry(['key']).subscribe(listener)
+		await cache.load(['key'], async () => 'data')
+
+		expect(listener).toHaveBeenCalledTimes(2) // loading, then data
+		unsubscribe()
+		await cache.reload(['key'], async () => 'data')
+		expect(listener).toHaveBeenCalledTimes(2)
+	})
+})
+
+describe('LoadCacheProvider', () => {
+	test('useLoadCache returns the provided cache', () => {
+		const cache = createLoadCache()
+		const {result} = renderHook(() => useLoadCache(), {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, {cache}, children)
+		})
+
+		expect(result.current).toBe(cache)
+	})
+
+	test('provider without cache creates its own', () => {
+		const {result} = renderHook(() => useLoadCache(), {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, null, children)
+		})
+		const {result: defaultResult} = renderHook(() => useLoadCache())
+
+		expect(result.current).not.toBe(defaultResult.current)
+	})
+
+	test('own cache is kept across renders', () => {
+		const {result, rerender} = renderHook(() => useLoadCache(), {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, null, children)
+		})
+		const cache = result.current
+
+		rerender()
+
+		expect(result.current).toBe(cache)
+	})
+})
+
+describe('createLoadCache storage', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+		localStorage.clear()
+	})
+
+	test('successful loads are stored, and restored as stale data by another cache', async () => {
+		vi.useFakeTimers({toFake: ['Date']})
+		vi.setSystemTime(1000)
+		const storage = createMemoryStorage()
+
+		await createLoadCache({storage}).load(['user', 1], async () => 'user 1')
+		expect(storage.get(hashOf(['user', 1]))).toEqual({data: 'user 1', updatedAt: 1000})
+
+		vi.setSystemTime(2000)
+		const cache = createLoadCache({storage})
+		expect(cache.entry(['user', 1]).getSnapshot()).toMatchObject({status: 'success', data: 'user 1', updatedAt: 1000})
+		expect(cache.isStale(['user', 1])).toBe(true)
+
+		await cache.reload(['user', 1], async () => 'user 1 reloaded')
+		expect(cache.isStale(['user', 1])).toBe(false)
+		expect(storage.get(hashOf(['user', 1]))).toEqual({data: 'user 1 reloaded', updatedAt: 2000})
+	})
+
+	test('useLoad renders restored data at once, and reloads it in the background', async () => {
+		const storage = createMemoryStorage()
+		createLoadCache({storage}).set('key', 'stored')
+		const cache = createLoadCache({storage})
+		let resolve!: (data: string) => void
+
+		const {result} = renderHook(() => useLoad('key', () => new Promise<string>(res => resolve = res)), {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, {cache}, children)
+		})
+		expect(result.current).toMatchObject({status: 'loading', data: 'stored', loading: true})
+
+		await act(async () => resolve('loaded'))
+		expect(result.current).toMatchObject({status: 'success', data: 'loaded'})
+	})
+
+	test('stored data of another version, or older than maxAge, is dropped', () => {
+		vi.useFakeTimers({toFake: ['Date']})
+		vi.setSystemTime(1000)
+		const storage = createMemoryStorage()
+		createLoadCache({storage, version: 1}).set('old', 'data')
+		createLoadCache({storage, version: 2}).set('new', 'data')
+
+		vi.setSystemTime(1500)
+		const cache = createLoadCache({storage, version: 2, maxAge: 1000})
+		expect(cache.entry('old').getSnapshot().status).toBe('idle')
+		expect(cache.entry('new').getSnapshot().data).toBe('data')
+		expect(storage.get(hashOf('old'))).toBeUndefined()
+
+		vi.setSystemTime(2001)
+		expect(createLoadCache({storage, version: 2, maxAge: 1000}).entry('new').getSnapshot().status).toBe('idle')
+		expect(storage.get(hashOf('new'))).toBeUndefined()
+	})
+
+	test('an async storage restores data when it resolves, unless a load was faster', async () => {
+		const values = new Map<string, StoredLoad>([
+			[hashOf('a'), {data: 'stored a', updatedAt: Date.now()}],
+			[hashOf('b'), {data: 'stored b', updatedAt: Date.now()}],
+		])
+		const storage: StorageAdapter = {
+			get: async hash => values.get(hash),
+			set: async (hash, value) => void values.set(hash, value),
+			delete: async hash => void values.delete(hash),
+		}
+		const cache = createLoadCache({storage})
+
+		expect(cache.entry('a').getSnapshot().status).toBe('idle')
+		cache.set('b', 'loaded b')
+		await Promise.resolve()
+
+		expect(cache.get('a').data).toBe('stored a')
+		expect(cache.get('b').data).toBe('loaded b')
+		await Promise.resolve()
+		expect(values.get(hashOf('b'))?.data).toBe('loaded b')
+	})
+
+	test('createLocalStorage stores JSON under prefixed keys', async () => {
+		const storage = createLocalStorage({prefix: 'app:'})
+		await createLoadCache({storage, version: 'v1'}).load('key', () => ({id: 1}))
+
+		const json = localStorage.getItem(`app:${hashOf('key')}`)
+		expect(JSON.parse(json!)).toMatchObject({data: {id: 1}, version: 'v1'})
+		expect(createLoadCache({storage, version: 'v1'}).entry('key').getSnapshot().data).toEqual({id: 1})
+	})
+
+	test('a failing storage never fails loads', async () => {
+		const storage = createLocalStorage()
+		localStorage.setItem(`load:${hashOf('corrupt')}`, '{')
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+			throw new Error('quota exceeded')
+		})
+		const cache = createLoadCache({storage})
+
+		expect(cache.entry('corrupt').getSnapshot().status).toBe('idle')
+		await expect(cache.load('corrupt', () => 'data')).resolves.toBe('data')
+		expect(cache.get('corrupt').data).toBe('data')
+		vi.restoreAllMocks()
+	})
+})
+
+describe('createLoadCache invalidation', () => {
+	function renderWithCache<R>(cache: LoadCache, hook: () => R) {
+		return renderHook(hook, {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, {cache}, children)
+		})
+	}
+
+	test('invalidate reloads the mounted keys starting with the prefix, once per key', async () => {
+		const cache = createLoadCache()
+		let version = 1
+		const fetcher = vi.fn(async (_: unknown, key: readonly unknown[]) => `${key.join(' ')} v${version}`)
+		const {result: user1} = renderWithCache(cache, () => useLoad(['user', 1], fetcher))
+		const {result: user1Again} = renderWithCache(cache, () => useLoad(['user', 1], fetcher))
+		const {result: user2} = renderWithCache(cache, () => useLoad(['user', 2], fetcher))
+		const {result: post} = renderWithCache(cache, () => useLoad(['post', 1], fetcher))
+		await waitFor(() => expect(post.current.data).toBe('post 1 v1'))
+		expect(fetcher).toHaveBeenCalledTimes(3)
+
+		version = 2
+		act(() => cache.invalidate('user'))
+		expect(user1.current).toMatchObject({status: 'loading', data: 'user 1 v1'})
+
+		await waitFor(() => expect(user1.current.data).toBe('user 1 v2'))
+		expect(user1Again.current.data).toBe('user 1 v2')
+		expect(user2.current.data).toBe('user 2 v2')
+		expect(post.current.data).toBe('post 1 v1')
+		expect(fetcher).toHaveBeenCalledTimes(5)
+		expect(cache.isStale(['user', 1])).toBe(false)
+	})
+
+	test('an unmounted key is marked stale, and reloaded when mounted', async () => {
+		const cache = createLoadCache()
+		await cache.load(['user', 1], async () => 'old')
+
+		cache.invalidate(['user', 1])
+		expect(cache.isStale(['user', 1])).toBe(true)
+		expect(cache.get(['user', 1]).data).toBe('old')
+
+		const {result} = renderWithCache(cache, () => useLoad(['user', 1], async () => 'new'))
+		expect(result.current).toMatchObject({status: 'loading', data: 'old'})
+		await waitFor(() => expect(result.current.data).toBe('new'))
+		expect(cache.isStale(['user', 1])).toBe(false)
+	})
+
+	test('invalidateTags invalidates the keys loaded with any of the tags', async () => {
+		const cache = createLoadCache()
+		await cache.load('users', async () => [], {tags: ['users']})
+		await cache.load(['team', 1], async () => ({}), {tags: ['teams', 'users']})
+		await cache.load('posts', async () => [], {tags: ['posts']})
+
+		cache.invalidateTags(['users'])
+
+		expect([cache.isStale('users'), cache.isStale(['team', 1]), cache.isStale('posts')]).toEqual([true, true, false])
+	})
+
+	test('tags of loads of a key are merged', async () => {
+		const cache = createLoadCache()
+		await cache.load('key', async () => 'data', {tags: ['a']})
+		await cache.reload('key', async () => 'data')
+		await cache.reload('key', async () => 'data', {tags: ['b']})
+
+		cache.invalidateTags(['a'])
+		expect(cache.isStale('key')).toBe(true)
+
+		await cache.reload('key', async () => 'data')
+		cache.invalidateTags(['b'])
+		expect(cache.isStale('key')).toBe(true)
+	})
+
+	test('tags of a mounted component apply to data it did not load', async () => {
+		const cache = createLoadCache()
+		cache.set(['user', 1], 'set')
+		const fetcher = vi.fn(async () => 'loaded')
+		const {result} = renderWithCache(cache, () => useLoad(['user', 1], fetcher, {tags: ['users']}))
+		expect(fetcher).not.toHaveBeenCalled()
+
+		act(() => cache.invalidateTags(['users']))
+		await waitFor(() => expect(result.current.data).toBe('loaded'))
+	})
+
+	test('tags of a mounted component apply to data restored from storage', async () => {
+		const storage = createMemoryStorage()
+		createLoadCache({storage}).set('key', 'stored')
+		const cache = createLoadCache({storage, staleTime: 60_000})
+		const fetcher = vi.fn(async () => 'loaded')
+		const {result} = renderWithCache(cache, () => useLoad('key', fetcher, {tags: ['tag']}))
+		expect(result.current.data).toBe('stored')
+		expect(fetcher).not.toHaveBeenCalled()
+
+		act(() => cache.invalidateTags(['tag']))
+
+		await waitFor(() => expect(result.current.data).toBe('loaded'))
+	})
+
+	test('tags of a mounted component survive clear', async () => {
+		const cache = createLoadCache()
+		let loads = 0
+		const {result} = renderWithCache(cache, () => useLoad('key', async () => `load ${++loads}`, {tags: ['tag']}))
+		await waitFor(() => expect(result.current.data).toBe('load 1'))
+
+		act(() => cache.clear())
+		await waitFor(() => expect(result.current.data).toBe('load 2'))
+
+		act(() => cache.invalidateTags(['tag']))
+		await waitFor(() => expect(result.current.data).toBe('load 3'))
+	})
+
+	test('invalidations are broadcast to other tabs, unless the key was loaded after', async () => {
+		vi.useFakeTimers({toFake: ['Date']})
+		vi.setSystemTime(1000)
+		const tab1 = createLoadCache({broadcast: 'invalidation'})
+		const tab2 = createLoadCache({broadcast: 'invalidation'})
+		const revalidate = vi.fn()
+		tab2.set(['user', 1], 'data')
+		tab2.watch(['user', 1], revalidate)
+		tab2.entry(['user', 2])
+
+		tab1.invalidate('user')
+		vi.setSystemTime(2000)
+		tab2.set(['user', 2], 'loaded after')
+		tab1.invalidateTags(['users'])
+		vi.useRealTimers()
+
+		await waitFor(() => expect(revalidate).toHaveBeenCalledTimes(1))
+		expect(tab2.isStale(['user', 1])).toBe(true)
+		expect(tab2.isStale(['user', 2])).toBe(false)
+		tab1.dispose()
+		tab2.dispose()
+	})
+})
+
+describe('createLoadCache staleTime, gcTime and maxEntries', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	function renderWithCache(cache: LoadCache, fetcher: () => Promise<string>) {
+		return renderHook(() => useLoad('key', fetcher), {
+			wrapper: ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, {cache}, children)
+		})
+	}
+
+	test('data is served without loading until it gets older than staleTime', async () => {
+		const cache = createLoadCache({staleTime: 1000})
+		const fetcher = vi.fn(async () => 'data')
+		await cache.load('key', fetcher)
+
+		renderWithCache(cache, fetcher).unmount()
+		expect(fetcher).toHaveBeenCalledTimes(1)
+
+		vi.advanceTimersByTime(1001)
+		expect(cache.isStale('key')).toBe(true)
+		const {result} = renderWithCache(cache, fetcher)
+		expect(result.current).toMatchObject({status: 'loading', data: 'data'})
+		await act(async () => {})
+		expect(fetcher).toHaveBeenCalledTimes(2)
+		expect(cache.isStale('key')).toBe(false)
+	})
+
+	test('without staleTime, data is never stale by age', async () => {
+		const cache = createLoadCache()
+		await cache.load('key', async () => 'data')
+
+		vi.advanceTimersByTime(365 * 24 * 3600_000)
+
+		expect(cache.isStale('key')).toBe(false)
+	})
+
+	test('with staleTime, restored data is stale by age', () => {
+		const storage = createMemoryStorage()
+		createLoadCache({storage}).set('old', 'data')
+		vi.advanceTimersByTime(2000)
+		createLoadCache({storage}).set('fresh', 'data')
+		vi.advanceTimersByTime(2000)
+
+		const cache = createLoadCache({storage, staleTime: 3000})
+
+		expect(cache.entry('old').getSnapshot().data).toBe('data')
+		expect(cache.isStale('old')).toBe(true)
+		expect(cache.entry('fresh').getSnapshot().data).toBe('data')
+		expect(cache.isStale('fresh')).toBe(false)
+	})
+
+	test('a key is dropped gcTime after the last component using it unmounts', async () => {
+		const cache = createLoadCache({gcTime: 1000})
+		const first = renderWithCache(cache, async () => 'data')
+		const second = renderWithCache(cache, async () => 'data')
+		await act(async () => {})
+
+		first.unmount()
+		vi.advanceTimersByTime(2000)
+		expect(cache.get('key').data).toBe('data')
+
+		second.unmount()
+		vi.advanceTimersByTime(999)
+		const third = renderWithCache(cache, async () => 'data')
+		vi.advanceTimersByTime(2000)
+		expect(cache.get('key').data).toBe('data')
+
+		third.unmount()
+		vi.advanceTimersByTime(1000)
+		expect(cache.get('key')).toEqual({status: 'idle', loading: false})
+	})
+
+	test('a key used without a component is dropped gcTime later, but never while loading', async () => {
+		const cache = createLoadCache({gcTime: 1000})
+		const loaded = cache.load('key', () => new Promise<string>(resolve => setTimeout(() => resolve('data'), 1500)))
+
+		vi.advanceTimersByTime(1000)
+		expect(cache.get('key').loading).toBe(true)
+
+		await vi.advanceTimersByTimeAsync(500)
+		await expect(loaded).resolves.toBe('data')
+		expect(cache.get('key').data).toBe('data')
+
+		vi.advanceTimersByTime(500)
+		expect(cache.get('key').status).toBe('idle')
+	})
+
+	test('beyond maxEntries, the least recently used keys without a component are dropped', async () => {
+		const cache = createLoadCache({maxEntries: 2})
+		const {unmount} = renderWithCache(cache, async () => 'mounted')
+		await act(async () => {})
+
+		cache.set('a', 'a')
+		cache.set('b', 'b')
+		expect([cache.get('key').data, cache.get('a').data, cache.get('b').data]).toEqual(['mounted', undefined, 'b'])
+
+		unmount()
+		cache.get('key')
+		cache.entry('b')
+		cache.set('c', 'c')
+		expect([cache.get('key').data, cache.get('b').data, cache.get('c').data]).toEqual([undefined, 'b', 'c'])
+	})
+})
+
+describe('createLoadCache broadcast', () => {
+	// two caches on one channel behave like the caches of two tabs
+	let tab1: LoadCache
+	let tab2: LoadCache
+
+	beforeEach(() => {
+		tab1 = createLoadCache({broadcast: 'test'})
+		tab2 = createLoadCache({broadcast: 'test'})
+	})
+	afterEach(() => {
+		tab1.dispose()
+		tab2.dispose()
+		vi.useRealTimers()
+		vi.restoreAllMocks()
+	})
+
+	test('data of a successful load is sent to other tabs without loading, and not sent back', async () => {
+		const postMessage = vi.spyOn(BroadcastChannel.prototype, 'postMessage')
+		tab2.entry('key')
+
+		await tab1.load('key', async () => 'tab 1')
+
+		await waitFor(() => expect(tab2.get('key')).toMatchObject({status: 'success', data: 'tab 1', updatedAt: tab1.get('key').updatedAt}))
+		expect(postMessage).toHaveBeenCalledTimes(1)
+	})
+
+	test('data that cannot be cloned is not sent, and never fails the load', async () => {
+		const onError = vi.fn()
+		const listener = vi.fn()
+		tab1.entry('key').subscribe(listener)
+		tab2.entry('key')
+		const data = {fn() {}}
+
+		await expect(tab1.load('key', async () => data, {onError})).resolves.toBe(data)
+		expect(tab1.get('key')).toMatchObject({status: 'success', data})
+		expect(onError).not.toHaveBeenCalled()
+		expect(listener).toHaveBeenCalledTimes(2)
+		expect(() => tab1.set('key', {fn() {}})).not.toThrow()
+
+		tab1.set('sentinel', 'data')
+		tab2.entry('sentinel')
+		await waitFor(() => expect(tab2.get('sentinel').data).toBe('data'))
+		expect(tab2.get('key').status).toBe('idle')
+	})
+
+	test('mutations and setData are sent', async () => {
+		tab2.entry('key')
+
+		await tab1.mutate('key', 'optimistic', async () => 'committed')
+		await waitFor(() => expect(tab2.get('key').data).toBe('committed'))
+
+		tab1.set('key', 'set')
+		await waitFor(() => expect(tab2.get('key').data).toBe('set'))
+	})
+
+	test('data older than the data of the tab is dropped', async () => {
+		vi.useFakeTimers({toFake: ['Date']})
+		vi.setSystemTime(2000)
+		tab2.set('old', 'newer data')
+		tab2.entry('sentinel')
+
+		vi.setSystemTime(1000)
+		tab1.set('old', 'older data')
+		tab1.set('sentinel', 'data')
+
+		// messages arrive in order
+		await waitFor(() => expect(tab2.get('sentinel').data).toBe('data'))
+		expect(tab2.get('old')).toMatchObject({data: 'newer data', updatedAt: 2000})
+	})
+
+	test('a reset is sent, unless the tab loaded after it', async () => {
+		vi.useFakeTimers({toFake: ['Date']})
+		vi.setSystemTime(1000)
+		tab2.set('a', 'data')
+		tab2.set('b', 'data')
+
+		vi.setSystemTime(2000)
+		tab1.reset('a')
+		tab1.reset('b')
+		vi.setSystemTime(3000)
+		tab2.set('b', 'loaded after the reset')
+		tab1.set('sentinel', 'data')
+		tab2.entry('sentinel')
+
+		await waitFor(() => expect(tab2.get('a')).toEqual({status: 'idle', loading: false}))
+		await waitFor(() => expect(tab2.get('sentinel').data).toBe('data'))
+		expect(tab2.get('b').data).toBe('loaded after the reset')
+	})
+
+	test('keys unused by a tab, and caches without broadcast, are left alone', async () => {
+		const other = createLoadCache()
+		other.entry('key')
+		tab2.entry('sentinel')
+
+		tab1.set('key', 'data')
+		tab1.set('sentinel', 'data')
+
+		await waitFor(() => expect(tab2.get('sentinel').data).toBe('data'))
+		expect(tab2.get('key').status).toBe('idle')
+		expect(other.get('key').status).toBe('idle')
+	})
+})
+
+// the storage key of a load key
+function hashOf(key: string | unknown[]) {
+	return JSON.stringify(typeof key === 'string' ? [key] : key)
+}
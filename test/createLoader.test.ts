@@ -0,0 +1,107 @@
+import {describe, expect, test, vi} from 'vitest'
+import {act, renderHook} from '@testing-library/react'
+import {createLoader, useLoader} from '../index'
+
+describe('createLoader', () => {
+	test('runs loads without React, and notifies subscribers', async () => {
+		const loader = createLoader<string>()
+		const listener = vi.fn()
+		loader.subscribe(listener)
+		expect(loader.getSnapshot()).toEqual({status: 'idle', loading: false})
+
+		const promise = loader.run(async (_, id: number) => `user ${id}`, [1])
+		expect(loader.getSnapshot()).toMatchObject({status: 'loading', loading: true})
+		expect(loader.loadingRef.current).toBe(promise)
+
+		await expect(promise).resolves.toBe('user 1')
+		expect(loader.getSnapshot()).toMatchObject({status: 'success', data: 'user 1', loading: false})
+		expect(loader.loadingRef.current).toBeUndefined()
+		expect(listener).toHaveBeenCalledTimes(2)
+	})
+
+	test('unsubscribed listeners are not notified', () => {
+		const loader = createLoader<string>()
+		const listener = vi.fn()
+
+		loader.subscribe(listener)()
+		loader.run(() => 'data', [])
+
+		expect(listener).not.toHaveBeenCalled()
+	})
+
+	test('options of the loader are overridden by the options of each run', async () => {
+		const onSuccess = vi.fn()
+		const loader = createLoader<string>(undefined, {keepPrevious: true, onSuccess})
+		loader.run(() => 'first', [])
+
+		void loader.run(() => new Promise<string>(() => {}), [])
+		expect(loader.getSnapshot()).toMatchObject({status: 'loading', data: 'first'})
+
+		void loader.run(() => new Promise<string>(() => {}), [], {keepPrevious: false})
+		expect(loader.getSnapshot().data).toBeUndefined()
+		expect(onSuccess).toHaveBeenCalledWith('first', [])
+	})
+
+	test('strategy applies to runs of the loader', async () => {
+		const loader = createLoader<string>(undefined, {strategy: 'exhaust'})
+		const fn = vi.fn(async () => 'data')
+
+		const first = loader.run(fn, [])
+		const second = loader.run(fn, [])
+
+		expect(second).toBe(first)
+		expect(fn).toHaveBeenCalledTimes(1)
+	})
+
+	test('abort, reset, setData and mutate', async () => {
+		const loader = createLoader(() => 'initial')
+		let signal!: AbortSignal
+		void loader.run(disposer => {
+			signal = disposer.signal
+			return new Promise<string>(() => {})
+		}, [])
+
+		loader.abort('cancelled')
+		expect(signal.reason).toBe('cancelled')
+		expect(loader.getSnapshot()).toMatchObject({status: 'idle', loading: false})
+
+		loader.setData('set')
+		expect(loader.getSnapshot()).toMatchObject({status: 'success', data: 'set'})
+
+		await loader.mutate(data => `${data} mutated`, async () => 'committed')
+		expect(loader.getSnapshot().data).toBe('committed')
+
+		loader.reset()
+		expect(loader.getSnapshot()).toMatchObject({status: 'success', data: 'initial', loading: false})
+	})
+
+	test('dispose aborts loads, and the loader can load again', () => {
+		const loader = createLoader<string>()
+		let signal!: AbortSignal
+		void loader.run(disposer => {
+			signal = disposer.signal
+			return new Promise<string>(() => {})
+		}, [])
+
+		loader.dispose()
+		expect(signal.aborted).toBe(true)
+
+		loader.run(() => 'data', [])
+		expect(loader.getSnapshot()).toMatchObject({status: 'success', data: 'data'})
+	})
+
+	test('useLoader subscribes components to the loader', async () => {
+		const loader = createLoader<string>()
+		const {result: first} = renderHook(() => useLoader(loader))
+		const {result: second, unmount} = renderHook(() => useLoader(loader))
+
+		await act(() => loader.run(async () => 'data', []))
+
+		expect(first.current).toMatchObject({status: 'success', data: 'data'})
+		expect(second.current).toBe(first.current)
+
+		unmount()
+		act(() => loader.setData('updated'))
+		expect(first.current.data).toBe('updated')
+	})
+})
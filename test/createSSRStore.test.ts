@@ -0,0 +1,86 @@
+// @vitest-environment node
+import {describe, expect, test, vi} from 'vitest'
+import {createElement} from 'react'
+import {renderToString} from 'react-dom/server'
+import {createSSRStore, SSRStore, SSRStoreProvider, useSSRLoad} from '../index'
+
+function User({id, fetcher}: {id: number, fetcher: (disposer: unknown, key: readonly [string, number]) => Promise<string>}) {
+	const {data, error, loading} = useSSRLoad(['user', id] as const, fetcher)
+	if (error) return createElement('p', null, `error: ${(error as Error).message}`)
+	return createElement('p', null, loading || data === undefined ? 'loading' : `user: ${data}`)
+}
+
+async function renderAll(store: SSRStore, element: ReturnType<typeof createElement>) {
+	const app = createElement(SSRStoreProvider, {store}, element)
+	let html = renderToString(app)
+	let renders = 1
+	while (await store.wait()) {
+		html = renderToString(app)
+		renders++
+	}
+	return {html, renders}
+}
+
+describe('createSSRStore', () => {
+	test('detects the server', () => {
+		expect(createSSRStore().server).toBe(true)
+		expect(createSSRStore({server: false}).server).toBe(false)
+	})
+
+	test('collects loads and renders again with the loaded data', async () => {
+		const store = createSSRStore()
+		const fetcher = vi.fn(async (disposer: unknown, key: readonly [string, number]) => `name-${key[1]}`)
+
+		const {html, renders} = await renderAll(store, createElement('div', null,
+			createElement(User, {id: 1, fetcher}),
+			createElement(User, {id: 2, fetcher}),
+			createElement(User, {id: 1, fetcher}),
+		))
+
+		expect(html).toBe('<div><p>user: name-1</p><p>user: name-2</p><p>user: name-1</p></div>')
+		expect(renders).toBe(2)
+		expect(fetcher).toHaveBeenCalledTimes(2)
+	})
+
+	test('wait resolves false when nothing is pending', async () => {
+		expect(await createSSRStore().wait()).toBe(false)
+	})
+
+	test('errors are set to error and not serialized', async () => {
+		const store = createSSRStore()
+
+		const {html} = await renderAll(store, createElement(User, {
+			id: 1,
+			fetcher: async () => {
+				throw new Error('failed')
+			}
+		}))
+
+		expect(html).toBe('<p>error: failed</p>')
+		expect(store.serialize()).toBe('{}')
+	})
+
+	test('serialize outputs the loaded data safe for <script>', async () => {
+		const store = createSSRStore()
+
+		await renderAll(store, createElement(User, {id: 1, fetcher: async () => '</script>'}))
+
+		const serialized = store.serialize()
+		expect(serialized).not.toContain('</script>')
+		expect(JSON.parse(serialized)).toEqual({'["user",1]': '</script>'})
+	})
+
+	test('serialized data hydrates a client store', async () => {
+		const server = createSSRStore()
+		await renderAll(server, createElement(User, {id: 1, fetcher: async () => 'name'}))
+
+		const client = createSSRStore({data: JSON.parse(server.serialize()), server: false})
+		const fetcher = vi.fn(async () => 'client')
+
+		expect(client.has(['user', 1])).toBe(true)
+		expect(client.read(['user', 1], fetcher)).toBe('name')
+		expect(client.read(['user', 2], fetcher)).toBeUndefined()
+		expect(await client.wait()).toBe(false)
+		expect(fetcher).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,92 @@
+import {afterEach, beforeEach, describe, expect, test, vi} from 'vitest'
+import {act, renderHook} from '@testing-library/react'
+import {createLoadCache, LoadEvent, registerLoadObserver, useLoad} from '../index'
+
+describe('registerLoadObserver', () => {
+	let events: LoadEvent[]
+	let unregister: () => void
+
+	beforeEach(() => {
+		vi.useFakeTimers()
+		vi.setSystemTime(1000)
+		events = []
+		unregister = registerLoadObserver(event => events.push(event))
+	})
+	afterEach(() => {
+		unregister()
+		vi.useRealTimers()
+	})
+
+	test('start and success events carry name, params and duration', async () => {
+		const {result} = renderHook(() => useLoad<string, [number]>(undefined, {name: 'user'}))
+
+		let promise!: Promise<string>
+		act(() => {
+			promise = result.current.loadAbortable((_, id: number) => new Promise<string>(resolve => setTimeout(() => resolve(`user ${id}`), 300)))(1)
+		})
+		expect(events).toEqual([{type: 'start', name: 'user', params: [1], startedAt: 1000}])
+
+		await act(async () => {
+			await vi.advanceTimersByTimeAsync(300)
+			await promise
+		})
+		expect(events[1]).toEqual({type: 'success', name: 'user', params: [1], startedAt: 1000, duration: 300, data: 'user 1'})
+	})
+
+	test('error event', async () => {
+		const error = new Error('failed')
+		const {result} = renderHook(() => useLoad<string, []>())
+
+		await act(() => expect(result.current.loadAbortable(async () => {
+			throw error
+		})()).rejects.toThrow(error))
+
+		expect(events.map(event => event.type)).toEqual(['start', 'error'])
+		expect(events[1]).toMatchObject({type: 'error', error, duration: 0})
+		expect(events[1].name).toBeUndefined()
+	})
+
+	test('abort event for a superseded load', async () => {
+		const {result} = renderHook(() => useLoad<string, [string]>(undefined, {name: 'search'}))
+
+		act(() => {
+			void result.current.loadAbortable(() => new Promise<string>(() => {}))('a')
+		})
+		vi.advanceTimersByTime(50)
+		act(() => {
+			result.current.loadAbortable((_, query: string) => query)('ab')
+		})
+
+		expect(events.map(event => [event.type, event.params])).toEqual([
+			['start', ['a']],
+			['abort', ['a']],
+			['start', ['ab']],
+			['success', ['ab']],
+		])
+		expect(events[1]).toMatchObject({name: 'search', duration: 50})
+	})
+
+	test('loads of the load cache are observed', async () => {
+		const cache = createLoadCache()
+
+		await cache.load(['key'], async () => 'data', {name: 'cached'})
+
+		expect(events).toMatchObject([
+			{type: 'start', name: 'cached', params: [['key']]},
+			{type: 'success', name: 'cached', params: [['key']], data: 'data'},
+		])
+	})
+
+	test('an unregistered observer gets no event', () => {
+		const observer = vi.fn()
+		registerLoadObserver(observer)()
+		const {result} = renderHook(() => useLoad<string, []>())
+
+		act(() => {
+			result.current.loadAbortable(() => 'data')()
+		})
+
+		expect(observer).not.toHaveBeenCalled()
+		expect(events).toHaveLength(2)
+	})
+})
@@ -0,0 +1,148 @@
+import {describe, expectTypeOf, test} from 'vitest'
+import {renderHook} from '@testing-library/react'
+import {createLoader, LoadState, PartialDisposer, useLoad, useLoadEffect, useLoadMore, useLoads, useLoadSuspense} from '../index'
+
+describe('useLoad types', () => {
+	test('loadAbortable result must be assignable to T', () => {
+		const {result} = renderHook(() => useLoad<string>())
+		const {loadAbortable} = result.current
+
+		expectTypeOf(loadAbortable(() => 'data')).returns.toEqualTypeOf<'data'>()
+		expectTypeOf(loadAbortable(async () => 'data' as string)).returns.toEqualTypeOf<Promise<string>>()
+		// @ts-expect-error number is not assignable to string
+		loadAbortable(() => 1)
+		// @ts-expect-error Promise<number> is not assignable to Promise<string>
+		loadAbortable(async () => 1)
+	})
+
+	test('loadAbortable params are inferred and enforced', () => {
+		const {result} = renderHook(() => useLoad<string, [id: number]>())
+		const {loadAbortable} = result.current
+
+		const load = loadAbortable(async (disposer, id) => {
+			expectTypeOf(disposer).toEqualTypeOf<PartialDisposer>()
+			expectTypeOf(id).toEqualTypeOf<number>()
+			return `user ${id}`
+		})
+		expectTypeOf(load).parameters.toEqualTypeOf<[id: number]>()
+		// @ts-expect-error string is not assignable to number
+		load('1')
+		// @ts-expect-error string params are not assignable to [id: number]
+		loadAbortable(async (_, id: string) => id)
+	})
+
+	test('params are free without Params', () => {
+		const {result} = renderHook(() => useLoad<string>())
+
+		const load = result.current.loadAbortable((_, id: number, name: string) => `${id} ${name}`)
+		expectTypeOf(load).parameters.toEqualTypeOf<[id: number, name: string]>()
+	})
+
+	test('load keeps the params of the callback and checks its result', () => {
+		const {result} = renderHook(() => useLoad<number, [a: number, b: number]>())
+		const {load} = result.current
+
+		const add = load(async (a, b) => a + b)
+		expectTypeOf(add).toEqualTypeOf<(a: number, b: number) => Promise<number>>()
+		// @ts-expect-error string is not assignable to number
+		load(async (a: number, b: number) => `${a + b}`)
+		// @ts-expect-error the third param is not in Params
+		load((a: number, b: number, c: number) => a + b + c)
+	})
+
+	test('a stream returns a promise of its last value', () => {
+		const {result} = renderHook(() => useLoad<string, []>())
+
+		const stream = result.current.loadAbortable(async function* () {
+			yield 'a'
+		})
+		expectTypeOf(stream).returns.toEqualTypeOf<Promise<string>>()
+		// @ts-expect-error numbers are not assignable to string
+		result.current.loadAbortable(async function* () {
+			yield 1
+		})
+	})
+
+	test('T is inferred from getInitial', () => {
+		const {result} = renderHook(() => useLoad(() => 1))
+
+		expectTypeOf(result.current.data).toEqualTypeOf<number | undefined>()
+		expectTypeOf(result.current.setData).parameter(0).toEqualTypeOf<number | ((data: number | undefined) => number)>()
+		// @ts-expect-error string is not assignable to number
+		result.current.loadAbortable(() => 'data')
+	})
+
+	test('status narrows data and error', () => {
+		const {result} = renderHook(() => useLoad<string>())
+		const state: LoadState<string> = result.current
+
+		if (state.status === 'success') expectTypeOf(state.data).toEqualTypeOf<string>()
+		if (state.status === 'idle') expectTypeOf(state.data).toEqualTypeOf<undefined>()
+		if (state.status === 'error') expectTypeOf(state.loading).toEqualTypeOf<false>()
+	})
+
+	test('keyed form infers T and the key from the fetcher', () => {
+		const {result} = renderHook(() => useLoad(['user', 1] as const, async (_, [, id]) => {
+			expectTypeOf(id).toEqualTypeOf<1>()
+			return {id}
+		}))
+
+		expectTypeOf(result.current.data).toEqualTypeOf<{id: 1} | undefined>()
+		expectTypeOf(result.current.reload).returns.toEqualTypeOf<Promise<{id: 1}>>()
+		expectTypeOf(result.current).not.toHaveProperty('loadAbortable')
+	})
+
+	test('callbacks receive T', () => {
+		renderHook(() => useLoad<string>(undefined, {
+			onSuccess(data) {
+				expectTypeOf(data).toEqualTypeOf<string>()
+			},
+			onSettled(data) {
+				expectTypeOf(data).toEqualTypeOf<string | undefined>()
+			},
+		}))
+	})
+
+	test('useLoadSuspense data is always defined', () => {
+		const {result} = renderHook(() => useLoadSuspense('key', async () => 1))
+
+		expectTypeOf(result.current.data).toEqualTypeOf<number>()
+	})
+
+	test('useLoadEffect infers T from fn', () => {
+		const {result} = renderHook(() => useLoadEffect(async () => 1, []))
+
+		expectTypeOf(result.current.data).toEqualTypeOf<number | undefined>()
+		expectTypeOf(result.current.reload).returns.toEqualTypeOf<Promise<number>>()
+		// @ts-expect-error getInitial must return T
+		useLoadEffect(async () => 1, [], {getInitial: () => 'initial'})
+	})
+
+	test('useLoads checks keys and results', () => {
+		const {result} = renderHook(() => useLoads<number, string>())
+
+		expectTypeOf(result.current.loadAbortable(1, async (_, id: number) => String(id))).toEqualTypeOf<(id: number) => Promise<string>>()
+		expectTypeOf(result.current.get(1).data).toEqualTypeOf<string | undefined>()
+		// @ts-expect-error the key is a number
+		result.current.get('1')
+		// @ts-expect-error number is not assignable to string
+		result.current.loadAbortable(1, () => 1)
+	})
+
+	test('createLoader run checks params and results', () => {
+		const loader = createLoader<string>()
+
+		expectTypeOf(loader.run(async (_, id: number) => String(id), [1])).toEqualTypeOf<Promise<string>>()
+		// @ts-expect-error params do not match fn
+		loader.run(async (_, id: number) => String(id), ['1'])
+		// @ts-expect-error number is not assignable to string
+		loader.run(() => 1, [])
+	})
+
+	test('useLoadMore loadNext resolves a page', () => {
+		const {result} = renderHook(() => useLoadMore(async (_, page) => [page ?? 0], (_, pages) => pages.length))
+
+		expectTypeOf(result.current.pages).toEqualTypeOf<number[][]>()
+		expectTypeOf(result.current.loadNext).returns.toEqualTypeOf<Promise<number[] | undefined>>()
+	})
+})
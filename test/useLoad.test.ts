@@ -1,6 +1,11 @@
-import {describe, expect, test, vi} from 'vitest'
+import {afterEach, beforeEach, describe, expect, test, vi} from 'vitest'
+import {createElement, ReactNode, useEffect} from 'react'
 import {act, renderHook, waitFor} from '@testing-library/react'
-import {useLoad} from '../index'
+import {createLoadCache, LoadCache, LoadCacheProvider, PartialDisposer, TimeoutError, useLoad} from '../index'
+
+function cacheWrapper(cache: LoadCache = createLoadCache()) {
+	return ({children}: {children: ReactNode}) => createElement(LoadCacheProvider, {cache}, children)
+}
 
 describe('useLoad', () => {
 		test('initial state without getInitial', () => {
@@ -1268,4 +1273,1700 @@ describe('useLoad', () => {
 			expect(result.current.data).toBe('ALICE is 30 years old')
 		})
 	})
+
+	describe('keepPrevious option', () => {
+		test('data is reset while reloading by default', async () => {
+			const {result} = renderHook(() => useLoad<string, [string]>())
+
+			const loadFn = result.current.loadAbortable(async (disposer, value) => {
+				await new Promise(resolve => setTimeout(resolve, 10))
+				return value
+			})
+
+			await act(() => loadFn('first'))
+			expect(result.current.data).toBe('first')
+
+			let promise: Promise<string>
+			act(() => {
+				promise = loadFn('second')
+			})
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.data).toBeUndefined()
+
+			await act(() => promise!)
+			expect(result.current.data).toBe('second')
+		})
+
+		test('data is kept while reloading', async () => {
+			const {result} = renderHook(() => useLoad<string, [string]>(undefined, {keepPrevious: true}))
+
+			const loadFn = result.current.loadAbortable(async (disposer, value) => {
+				await new Promise(resolve => setTimeout(resolve, 10))
+				return value
+			})
+
+			await act(() => loadFn('first'))
+			expect(result.current.data).toBe('first')
+
+			let promise: Promise<string>
+			act(() => {
+				promise = loadFn('second')
+			})
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.data).toBe('first')
+			expect(result.current.error).toBeUndefined()
+
+			await act(() => promise!)
+			expect(result.current.loading).toBe(false)
+			expect(result.current.data).toBe('second')
+		})
+
+		test('initial data is kept while loading', () => {
+			const {result} = renderHook(() => useLoad<string, []>(() => 'initial', {keepPrevious: true}))
+
+			act(() => {
+				result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.data).toBe('initial')
+		})
+
+		test('error is reset while reloading unless requested', async () => {
+			const error = new Error('failed')
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {keepPrevious: true}))
+
+			await act(async () => {
+				await result.current.loadAbortable(async () => {
+					throw error
+				})().catch(() => {})
+			})
+			expect(result.current.error).toBe(error)
+
+			act(() => {
+				result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.error).toBeUndefined()
+		})
+
+		test('error is kept while reloading with {error: true}', async () => {
+			const error = new Error('failed')
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {keepPrevious: {error: true}}))
+
+			await act(async () => {
+				await result.current.loadAbortable(async () => {
+					throw error
+				})().catch(() => {})
+			})
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(async () => 'recovered')()
+			})
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.error).toBe(error)
+			expect(result.current.data).toBeUndefined()
+
+			await act(() => promise!)
+			expect(result.current.loading).toBe(false)
+			expect(result.current.error).toBeUndefined()
+			expect(result.current.data).toBe('recovered')
+		})
+
+		test('keepPrevious is read from the latest render', async () => {
+			const {result, rerender} = renderHook(
+				({keepPrevious}) => useLoad<string, []>(() => 'initial', {keepPrevious}),
+				{initialProps: {keepPrevious: false}}
+			)
+
+			rerender({keepPrevious: true})
+			act(() => {
+				result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+
+			expect(result.current.data).toBe('initial')
+		})
+	})
+
+	describe('keyed', () => {
+		test('loads on mount', async () => {
+			const {result} = renderHook(() => useLoad(['key'], async () => 'data'), {wrapper: cacheWrapper()})
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.loadingRef.current).toBeInstanceOf(Promise)
+
+			await waitFor(() => {
+				expect(result.current.loading).toBe(false)
+				expect(result.current.data).toBe('data')
+			})
+			expect(result.current.loadingRef.current).toBeUndefined()
+		})
+
+		test('instances with the same key share one request and one result', async () => {
+			const fetcher = vi.fn(async () => {
+				await new Promise(resolve => setTimeout(resolve, 10))
+				return 'data'
+			})
+			const {result} = renderHook(() => [
+				useLoad(['key'], fetcher),
+				useLoad(['key'], fetcher),
+				useLoad('key', fetcher),
+			], {wrapper: cacheWrapper()})
+
+			await waitFor(() => {
+				for (const state of result.current) expect(state.data).toBe('data')
+			})
+			expect(fetcher).toHaveBeenCalledTimes(1)
+		})
+
+		test('different keys load separately', async () => {
+			const fetcher = vi.fn(async (disposer, key: readonly [string, number]) => key[1])
+			const {result} = renderHook(() => [
+				useLoad(['user', 1] as const, fetcher),
+				useLoad(['user', 2] as const, fetcher),
+			], {wrapper: cacheWrapper()})
+
+			await waitFor(() => {
+				expect(result.current[0].data).toBe(1)
+				expect(result.current[1].data).toBe(2)
+			})
+			expect(fetcher).toHaveBeenCalledTimes(2)
+		})
+
+		test('cached result is used by later mounts without refetching', async () => {
+			const cache = createLoadCache()
+			const fetcher = vi.fn(async () => 'data')
+			const first = renderHook(() => useLoad(['key'], fetcher), {wrapper: cacheWrapper(cache)})
+			await waitFor(() => expect(first.result.current.data).toBe('data'))
+			first.unmount()
+
+			const {result} = renderHook(() => useLoad(['key'], fetcher), {wrapper: cacheWrapper(cache)})
+
+			expect(result.current.data).toBe('data')
+			expect(result.current.loading).toBe(false)
+			expect(fetcher).toHaveBeenCalledTimes(1)
+		})
+
+		test('failed load is retried by later mounts', async () => {
+			const cache = createLoadCache()
+			const error = new Error('failed')
+			const first = renderHook(() => useLoad(['key'], async () => {
+				throw error
+			}), {wrapper: cacheWrapper(cache)})
+			await waitFor(() => expect(first.result.current.error).toBe(error))
+			first.unmount()
+
+			const {result} = renderHook(() => useLoad(['key'], async () => 'data'), {wrapper: cacheWrapper(cache)})
+
+			await waitFor(() => {
+				expect(result.current.error).toBeUndefined()
+				expect(result.current.data).toBe('data')
+			})
+		})
+
+		test('reload refetches for every instance', async () => {
+			let count = 0
+			const fetcher = vi.fn(async () => ++count)
+			const {result} = renderHook(() => [
+				useLoad(['key'], fetcher),
+				useLoad(['key'], fetcher),
+			], {wrapper: cacheWrapper()})
+			await waitFor(() => expect(result.current[1].data).toBe(1))
+
+			await act(() => result.current[0].reload())
+
+			expect(result.current[0].data).toBe(2)
+			expect(result.current[1].data).toBe(2)
+			expect(fetcher).toHaveBeenCalledTimes(2)
+		})
+
+		test('key change switches to the other entry', async () => {
+			const {result, rerender} = renderHook(
+				({id}) => useLoad(['user', id] as const, async (disposer, key) => `user-${key[1]}`),
+				{initialProps: {id: 1}, wrapper: cacheWrapper()}
+			)
+			await waitFor(() => expect(result.current.data).toBe('user-1'))
+
+			rerender({id: 2})
+
+			await waitFor(() => expect(result.current.data).toBe('user-2'))
+		})
+
+		test('keepPrevious keeps data while reloading', async () => {
+			const {result} = renderHook(
+				() => useLoad(['key'], async () => 'data', {keepPrevious: true}),
+				{wrapper: cacheWrapper()}
+			)
+			await waitFor(() => expect(result.current.data).toBe('data'))
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.reload()
+			})
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.data).toBe('data')
+			await act(() => promise!)
+		})
+
+		test('instances without provider share the default cache', async () => {
+			const key = ['default-cache', Math.random()]
+			const fetcher = vi.fn(async () => 'data')
+			const {result} = renderHook(() => [useLoad(key, fetcher), useLoad(key, fetcher)])
+
+			await waitFor(() => expect(result.current[1].data).toBe('data'))
+			expect(fetcher).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe('retry option', () => {
+		test('failed load is not retried by default', async () => {
+			const fn = vi.fn(async () => {
+				throw new Error('failed')
+			})
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			await act(async () => {
+				await expect(result.current.loadAbortable(fn)()).rejects.toThrow('failed')
+			})
+
+			expect(fn).toHaveBeenCalledTimes(1)
+		})
+
+		test('failed load is retried before error is set', async () => {
+			let attempts = 0
+			const fn = vi.fn(async () => {
+				if (++attempts < 3) throw new Error(`failed-${attempts}`)
+				return 'data'
+			})
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {retry: {count: 3, delay: () => 5}}))
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(fn)()
+			})
+			await new Promise(resolve => setTimeout(resolve, 2))
+			expect(result.current.loading).toBe(true)
+			expect(result.current.error).toBeUndefined()
+
+			await act(async () => {
+				expect(await promise!).toBe('data')
+			})
+			expect(fn).toHaveBeenCalledTimes(3)
+			expect(result.current.data).toBe('data')
+			expect(result.current.error).toBeUndefined()
+		})
+
+		test('last error is set when retries are exhausted', async () => {
+			let attempts = 0
+			const fn = vi.fn(async () => {
+				throw new Error(`failed-${++attempts}`)
+			})
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {retry: {count: 2, delay: () => 1}}))
+
+			await act(async () => {
+				await expect(result.current.loadAbortable(fn)()).rejects.toThrow('failed-3')
+			})
+
+			expect(fn).toHaveBeenCalledTimes(3)
+			expect((result.current.error as Error).message).toBe('failed-3')
+		})
+
+		test('retry count as number uses exponential backoff', async () => {
+			vi.useFakeTimers()
+			try {
+				const fn = vi.fn(async () => {
+					throw new Error('failed')
+				})
+				const {result} = renderHook(() => useLoad<string, []>(undefined, {retry: 2}))
+
+				let promise: Promise<string>
+				act(() => {
+					promise = result.current.loadAbortable(fn)()
+					promise.catch(() => {})
+				})
+				await act(() => vi.advanceTimersByTimeAsync(999))
+				expect(fn).toHaveBeenCalledTimes(1)
+				await act(() => vi.advanceTimersByTimeAsync(1))
+				expect(fn).toHaveBeenCalledTimes(2)
+				await act(() => vi.advanceTimersByTimeAsync(1999))
+				expect(fn).toHaveBeenCalledTimes(2)
+				await act(() => vi.advanceTimersByTimeAsync(1))
+				expect(fn).toHaveBeenCalledTimes(3)
+
+				await act(() => expect(promise!).rejects.toThrow('failed'))
+				expect(result.current.error).toBeInstanceOf(Error)
+			} finally {
+				vi.useRealTimers()
+			}
+		})
+
+		test('delay and when receive the attempt and the error', async () => {
+			const error = new Error('failed')
+			const delay = vi.fn(() => 1)
+			const when = vi.fn((e: unknown, attempt: number) => attempt < 1)
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {retry: {delay, when}}))
+
+			await act(async () => {
+				await expect(result.current.loadAbortable(async () => {
+					throw error
+				})()).rejects.toBe(error)
+			})
+
+			expect(when.mock.calls).toEqual([[error, 0], [error, 1]])
+			expect(delay.mock.calls).toEqual([[0, error]])
+		})
+
+		test('retry stops when a newer load starts', async () => {
+			const fn = vi.fn(async () => {
+				throw new Error('failed')
+			})
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {retry: {count: 3, delay: () => 20}}))
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(fn)()
+				promise.catch(() => {})
+			})
+			await new Promise(resolve => setTimeout(resolve, 5))
+			await act(() => result.current.loadAbortable(async () => 'second')())
+
+			await expect(promise!).rejects.toThrow('failed')
+			await new Promise(resolve => setTimeout(resolve, 30))
+			expect(fn).toHaveBeenCalledTimes(1)
+			expect(result.current.data).toBe('second')
+			expect(result.current.error).toBeUndefined()
+		})
+
+		test('retry stops on unmount', async () => {
+			const fn = vi.fn(async () => {
+				throw new Error('failed')
+			})
+			const {result, unmount} = renderHook(() => useLoad<string, []>(undefined, {retry: {count: 3, delay: () => 20}}))
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(fn)()
+				promise.catch(() => {})
+			})
+			await new Promise(resolve => setTimeout(resolve, 5))
+			unmount()
+
+			await expect(promise!).rejects.toThrow('failed')
+			await new Promise(resolve => setTimeout(resolve, 30))
+			expect(fn).toHaveBeenCalledTimes(1)
+		})
+
+		test('retry delays leave no abort listener on the signal', async () => {
+			const add = vi.spyOn(AbortSignal.prototype, 'addEventListener')
+			const remove = vi.spyOn(AbortSignal.prototype, 'removeEventListener')
+			// abort listeners added to signal, and not removed
+			const listenersOf = (signal: AbortSignal) => add.mock.calls.filter(([type, listener], i) => type === 'abort'
+				&& add.mock.contexts[i] === signal
+				&& !remove.mock.calls.some((call, j) => call[1] === listener && remove.mock.contexts[j] === signal)).length
+			try {
+				const signals: AbortSignal[] = []
+				const fail = ({signal}: PartialDisposer) => {
+					signals.push(signal)
+					return Promise.reject(new Error('failed'))
+				}
+				const {result: retried} = renderHook(() => useLoad<string, []>(undefined, {retry: {count: 2, delay: () => 1}}))
+				const {result: notRetried} = renderHook(() => useLoad<string, []>())
+
+				await act(() => expect(retried.current.loadAbortable(fail)()).rejects.toThrow('failed'))
+				await act(() => expect(notRetried.current.loadAbortable(fail)()).rejects.toThrow('failed'))
+
+				expect(signals).toHaveLength(4)
+				expect(listenersOf(signals[0])).toBe(listenersOf(signals[3]))
+			} finally {
+				vi.restoreAllMocks()
+			}
+		})
+
+		test('synchronous errors are not retried', () => {
+			const fn = vi.fn(() => {
+				throw new Error('failed')
+			})
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {retry: 3}))
+
+			act(() => {
+				expect(() => result.current.loadAbortable(fn)()).toThrow('failed')
+			})
+
+			expect(fn).toHaveBeenCalledTimes(1)
+			expect(result.current.error).toBeInstanceOf(Error)
+		})
+	})
+
+	describe('timeout option', () => {
+		test('slow load is aborted with TimeoutError', async () => {
+			const cleanup = vi.fn()
+			let signal: AbortSignal
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 10}))
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(disposer => {
+					signal = disposer.signal
+					disposer.add(cleanup)
+					return new Promise<string>(() => {})
+				})()
+			})
+
+			await act(async () => {
+				await expect(promise!).rejects.toBeInstanceOf(TimeoutError)
+			})
+
+			expect(signal!.aborted).toBe(true)
+			expect(signal!.reason).toBeInstanceOf(TimeoutError)
+			expect(signal!.reason.timeout).toBe(10)
+			expect(cleanup).toHaveBeenCalledTimes(1)
+			expect(result.current.loading).toBe(false)
+			expect(result.current.error).toBe(signal!.reason)
+			expect(result.current.loadingRef.current).toBeUndefined()
+		})
+
+		test('result arriving after timeout is ignored', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 10}))
+
+			await act(async () => {
+				await expect(result.current.loadAbortable(async () => {
+					await new Promise(resolve => setTimeout(resolve, 20))
+					return 'late'
+				})()).rejects.toBeInstanceOf(TimeoutError)
+			})
+			await new Promise(resolve => setTimeout(resolve, 20))
+
+			expect(result.current.data).toBeUndefined()
+			expect(result.current.error).toBeInstanceOf(TimeoutError)
+		})
+
+		test('fast load is not affected', async () => {
+			vi.useFakeTimers()
+			try {
+				const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 10}))
+
+				await act(() => result.current.loadAbortable(async () => 'data')())
+				await act(() => vi.advanceTimersByTimeAsync(20))
+
+				expect(result.current.data).toBe('data')
+				expect(result.current.error).toBeUndefined()
+			} finally {
+				vi.useRealTimers()
+			}
+		})
+
+		test('per call timeout overrides hook timeout', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 1000}))
+
+			await act(async () => {
+				await expect(result.current.loadAbortable(
+					() => new Promise<string>(() => {}),
+					{timeout: 5}
+				)()).rejects.toMatchObject({name: 'TimeoutError', timeout: 5})
+			})
+		})
+
+		test('per call timeout with load', async () => {
+			const {result} = renderHook(() => useLoad<string>())
+
+			await act(async () => {
+				await expect(result.current.load(
+					() => new Promise<string>(() => {}),
+					{timeout: 5}
+				)()).rejects.toBeInstanceOf(TimeoutError)
+			})
+
+			expect(result.current.error).toBeInstanceOf(TimeoutError)
+		})
+
+		test('timeout covers retries', async () => {
+			const fn = vi.fn(async () => {
+				throw new Error('failed')
+			})
+			vi.useFakeTimers()
+			try {
+				const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 15, retry: {count: 10, delay: () => 10}}))
+
+				let promise!: Promise<string>
+				act(() => {
+					promise = result.current.loadAbortable(fn)()
+					promise.catch(() => {})
+				})
+				await act(() => vi.advanceTimersByTimeAsync(15))
+				await expect(promise).rejects.toBeInstanceOf(TimeoutError)
+				await act(() => vi.advanceTimersByTimeAsync(30))
+
+				expect(fn).toHaveBeenCalledTimes(2)
+				expect(result.current.error).toBeInstanceOf(TimeoutError)
+			} finally {
+				vi.useRealTimers()
+			}
+		})
+
+		test('superseded load does not time out', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 10}))
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(async () => {
+					await new Promise(resolve => setTimeout(resolve, 20))
+					return 'first'
+				})()
+			})
+			act(() => {
+				result.current.loadAbortable(() => 'second')()
+			})
+
+			expect(await promise!).toBe('first')
+			expect(result.current.data).toBe('second')
+			expect(result.current.error).toBeUndefined()
+		})
+
+		test('loads after a timed out load update the state', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 10}))
+
+			await act(async () => {
+				await expect(result.current.loadAbortable(() => new Promise<string>(() => {}))()).rejects.toBeInstanceOf(TimeoutError)
+			})
+			act(() => {
+				result.current.loadAbortable(() => 'data')()
+			})
+
+			expect(result.current).toMatchObject({status: 'success', data: 'data', loading: false})
+		})
+	})
+
+	describe('strategy option', () => {
+		const delayed = <T>(value: T, ms = 10) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms))
+
+		test('exhaust ignores calls while a load is in progress', async () => {
+			const fn = vi.fn((disposer, value: string) => delayed(value))
+			const {result} = renderHook(() => useLoad<string, [string]>(undefined, {strategy: 'exhaust'}))
+
+			let first: Promise<string>, second: Promise<string>
+			act(() => {
+				first = result.current.loadAbortable(fn)('first')
+				second = result.current.loadAbortable(fn)('second')
+			})
+
+			expect(second!).toBe(first!)
+			await act(async () => {
+				expect(await second!).toBe('first')
+			})
+			expect(fn).toHaveBeenCalledTimes(1)
+			expect(result.current.data).toBe('first')
+
+			await act(() => result.current.loadAbortable(fn)('third'))
+			expect(result.current.data).toBe('third')
+		})
+
+		test.each(['replace', 'exhaust', 'queue', 'dedupe'] as const)('%s loads in an effect under StrictMode', async strategy => {
+			const fn = vi.fn(() => delayed('data'))
+			const {result} = renderHook(() => {
+				const state = useLoad<string, []>(undefined, {strategy})
+				const {load} = state
+				useEffect(() => void load(fn)().catch(() => {}), [load])
+				return state
+			}, {reactStrictMode: true})
+
+			await waitFor(() => expect(result.current).toMatchObject({status: 'success', data: 'data', loading: false}))
+			expect(fn).toHaveBeenCalledTimes(2)
+		})
+
+		test('queue runs calls sequentially', async () => {
+			const events: string[] = []
+			const fn = vi.fn(async ({signal}: {signal: AbortSignal}, value: string) => {
+				events.push(`start-${value}`)
+				signal.addEventListener('abort', () => events.push(`abort-${value}`))
+				await delayed(value)
+				events.push(`end-${value}`)
+				return value
+			})
+			const {result} = renderHook(() => useLoad<string, [string]>(undefined, {strategy: 'queue'}))
+
+			let promises: Promise<string>[]
+			act(() => {
+				promises = ['1', '2', '3'].map(value => result.current.loadAbortable(fn)(value))
+			})
+
+			expect(fn).toHaveBeenCalledTimes(1)
+			await act(async () => {
+				expect(await Promise.all(promises!)).toEqual(['1', '2', '3'])
+			})
+			expect(events).toEqual(['start-1', 'end-1', 'abort-1', 'start-2', 'end-2', 'abort-2', 'start-3', 'end-3'])
+			expect(result.current.data).toBe('3')
+			expect(result.current.loading).toBe(false)
+		})
+
+		test('queue continues after a failed load', async () => {
+			const {result} = renderHook(() => useLoad<string, [string]>(undefined, {strategy: 'queue'}))
+			const fn = result.current.loadAbortable(async (disposer, value: string) => {
+				await delayed(value)
+				if (value === 'fail') throw new Error(value)
+				return value
+			})
+
+			let failed: Promise<string>, next: Promise<string>
+			act(() => {
+				failed = fn('fail')
+				next = fn('next')
+			})
+
+			await act(async () => {
+				await expect(failed!).rejects.toThrow('fail')
+				expect(await next!).toBe('next')
+			})
+			expect(result.current.data).toBe('next')
+		})
+
+		test('queued loads are dropped on unmount', async () => {
+			const fn = vi.fn((_: PartialDisposer, value: string) => delayed(value))
+			const {result, unmount} = renderHook(() => useLoad<string, [string]>(undefined, {strategy: 'queue'}))
+
+			let second: Promise<string>
+			act(() => {
+				void result.current.loadAbortable(fn)('first')
+				second = result.current.loadAbortable(fn)('second')
+			})
+			unmount()
+
+			await expect(second!).rejects.toMatchObject({name: 'AbortError'})
+			expect(fn).toHaveBeenCalledTimes(1)
+		})
+
+		test('dedupe returns the in-progress promise for equal params', async () => {
+			const fn = vi.fn((disposer, params: {id: number}) => delayed(params.id))
+			const {result} = renderHook(() => useLoad<number, [{id: number}]>(undefined, {strategy: 'dedupe'}))
+
+			let first: Promise<number>, second: Promise<number>
+			act(() => {
+				first = result.current.loadAbortable(fn)({id: 1})
+				second = result.current.loadAbortable(fn)({id: 1})
+			})
+
+			expect(second!).toBe(first!)
+			expect(fn).toHaveBeenCalledTimes(1)
+			await act(() => first!)
+		})
+
+		test('dedupe replaces the in-progress load for different params', async () => {
+			let firstSignal: AbortSignal
+			const {result} = renderHook(() => useLoad<number, [number]>(undefined, {strategy: 'dedupe'}))
+			const fn = result.current.loadAbortable(({signal}, id: number) => {
+				if (id === 1) firstSignal = signal
+				return delayed(id)
+			})
+
+			act(() => {
+				void fn(1)
+				void fn(2)
+			})
+
+			expect(firstSignal!.aborted).toBe(true)
+			await waitFor(() => expect(result.current.data).toBe(2))
+		})
+
+		test('dedupe with load compares the params', async () => {
+			const fn = vi.fn((id: number) => delayed(id))
+			const {result} = renderHook(() => useLoad<number>(undefined, {strategy: 'dedupe'}))
+
+			act(() => {
+				void result.current.load(fn)(1)
+				void result.current.load(fn)(1)
+			})
+			expect(fn).toHaveBeenCalledTimes(1)
+
+			act(() => {
+				void result.current.load(fn)(2)
+			})
+			expect(fn).toHaveBeenCalledTimes(2)
+			await waitFor(() => expect(result.current.data).toBe(2))
+		})
+
+		test('per call strategy overrides hook strategy', async () => {
+			const {result} = renderHook(() => useLoad<string, [string]>())
+			const fn = vi.fn((disposer, value: string) => delayed(value))
+
+			let first: Promise<string>, second: Promise<string>
+			act(() => {
+				first = result.current.loadAbortable(fn)('first')
+				second = result.current.loadAbortable(fn, {strategy: 'exhaust'})('second')
+			})
+
+			expect(second!).toBe(first!)
+			expect(fn).toHaveBeenCalledTimes(1)
+			await act(() => first!)
+		})
+	})
+
+	describe('setData and mutate', () => {
+		test('setData replaces data without loading', () => {
+			const {result} = renderHook(() => useLoad<number, []>(() => 1))
+
+			act(() => result.current.setData(2))
+			expect(result.current.data).toBe(2)
+
+			act(() => result.current.setData(data => data! + 1))
+			expect(result.current.data).toBe(3)
+			expect(result.current.loading).toBe(false)
+		})
+
+		test('setData clears error', () => {
+			const {result} = renderHook(() => useLoad<number, []>(() => {
+				throw new Error('failed')
+			}))
+
+			act(() => result.current.setData(1))
+
+			expect(result.current.data).toBe(1)
+			expect(result.current.error).toBeUndefined()
+		})
+
+		test('mutate applies optimistic data and commits the result', async () => {
+			const {result} = renderHook(() => useLoad<string[], []>(() => ['a']))
+
+			let resolve: (value: string[]) => void
+			let promise: Promise<string[]>
+			act(() => {
+				promise = result.current.mutate(
+					data => [...data!, 'b'],
+					() => new Promise<string[]>(r => resolve = r)
+				)
+			})
+
+			expect(result.current.data).toEqual(['a', 'b'])
+			expect(result.current.loading).toBe(true)
+
+			await act(async () => {
+				resolve!(['a', 'b', 'server'])
+				expect(await promise!).toEqual(['a', 'b', 'server'])
+			})
+			expect(result.current.data).toEqual(['a', 'b', 'server'])
+			expect(result.current.loading).toBe(false)
+		})
+
+		test('mutate rolls back when the promise rejects', async () => {
+			const error = new Error('failed')
+			const {result} = renderHook(() => useLoad<string, []>(() => 'previous'))
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.mutate('optimistic', async () => {
+					await new Promise(resolve => setTimeout(resolve, 10))
+					throw error
+				})
+			})
+			expect(result.current.data).toBe('optimistic')
+
+			await act(() => expect(promise!).rejects.toBe(error))
+			expect(result.current.data).toBe('previous')
+			expect(result.current.error).toBeUndefined()
+			expect(result.current.loading).toBe(false)
+		})
+
+		test('mutate rolls back when superseded', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(() => 'previous', {keepPrevious: true}))
+
+			act(() => {
+				void result.current.mutate('optimistic', () => new Promise<string>(() => {}))
+			})
+			expect(result.current.data).toBe('optimistic')
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(() => new Promise<string>(resolve => setTimeout(() => resolve('reloaded'), 10)))()
+			})
+			expect(result.current.data).toBe('previous')
+			expect(result.current.loading).toBe(true)
+
+			await act(() => promise!)
+			expect(result.current.data).toBe('reloaded')
+		})
+
+		test('a failed mutation overlapping another rolls back to the committed data', async () => {
+			const error = new Error('failed')
+			const {result} = renderHook(() => useLoad<number, []>(() => 0))
+
+			act(() => {
+				void result.current.mutate(1, () => new Promise<number>(() => {}))
+			})
+			let promise: Promise<number>
+			act(() => {
+				promise = result.current.mutate(data => data! + 10, async () => {
+					throw error
+				})
+			})
+			expect(result.current.data).toBe(11)
+
+			await act(() => expect(promise!).rejects.toBe(error))
+			expect(result.current).toMatchObject({status: 'success', data: 0, loading: false})
+		})
+
+		test('mutate rolls back to the previous error', async () => {
+			const error = new Error('initial')
+			const {result} = renderHook(() => useLoad<string, []>(() => {
+				throw error
+			}))
+
+			await act(async () => {
+				await result.current.mutate('optimistic', async () => {
+					throw new Error('failed')
+				}).catch(() => {})
+			})
+
+			expect(result.current.data).toBeUndefined()
+			expect(result.current.error).toBe(error)
+		})
+
+		test('mutate receives the disposer', async () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			let signal: AbortSignal
+			await act(() => result.current.mutate('optimistic', disposer => {
+				signal = disposer.signal
+				return 'done'
+			}))
+
+			expect(signal!).toBeInstanceOf(AbortSignal)
+			expect(result.current.data).toBe('done')
+		})
+
+		test('keyed setData and mutate update every instance', async () => {
+			const {result} = renderHook(() => [
+				useLoad(['key'], async () => 1),
+				useLoad(['key'], async () => 1),
+			], {wrapper: cacheWrapper()})
+			await waitFor(() => expect(result.current[1].data).toBe(1))
+
+			act(() => result.current[0].setData(2))
+			expect(result.current[1].data).toBe(2)
+
+			await act(async () => {
+				await result.current[0].mutate(3, async () => {
+					throw new Error('failed')
+				}).catch(() => {})
+			})
+			expect(result.current[1].data).toBe(2)
+
+			await act(() => result.current[0].mutate(data => data! + 2, async () => 5))
+			expect(result.current[1].data).toBe(5)
+		})
+	})
+
+	describe('progress', () => {
+		test('progress is undefined initially', () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			expect(result.current.progress).toBeUndefined()
+		})
+
+		test('reported progress is exposed while loading and kept after', async () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			let report: (value: unknown) => void
+			let resolve: (value: string) => void
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(({progress}) => {
+					report = progress
+					return new Promise<string>(r => resolve = r)
+				})()
+			})
+			expect(result.current.progress).toBeUndefined()
+
+			act(() => report(0.5))
+			expect(result.current.progress).toBe(0.5)
+			expect(result.current.loading).toBe(true)
+
+			act(() => report({loaded: 10, total: 10}))
+			expect(result.current.progress).toEqual({loaded: 10, total: 10})
+
+			await act(async () => {
+				resolve('done')
+				await promise
+			})
+			expect(result.current.data).toBe('done')
+			expect(result.current.progress).toEqual({loaded: 10, total: 10})
+
+			act(() => report(0))
+			expect(result.current.progress).toEqual({loaded: 10, total: 10})
+		})
+
+		test('progress resets on each load', () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			act(() => {
+				result.current.loadAbortable(({progress}) => {
+					progress(1)
+					return 'first'
+				})()
+			})
+			expect(result.current.progress).toBe(1)
+
+			act(() => {
+				result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+			expect(result.current.progress).toBeUndefined()
+		})
+
+		test('progress of an aborted load is ignored', () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			let report: (value: unknown) => void
+			act(() => {
+				result.current.loadAbortable(({progress}) => {
+					report = progress
+					return new Promise<string>(() => {})
+				})()
+			})
+			act(() => {
+				result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+
+			act(() => report(0.5))
+			expect(result.current.progress).toBeUndefined()
+		})
+
+		test('keyed load reports progress to every instance', async () => {
+			const {result} = renderHook(() => [
+				useLoad(['key'], async ({progress}) => {
+					progress(50)
+					await new Promise(resolve => setTimeout(resolve, 10))
+					return 'data'
+				}),
+				useLoad(['key'], async () => 'other'),
+			], {wrapper: cacheWrapper()})
+
+			expect(result.current[1].progress).toBe(50)
+			await waitFor(() => expect(result.current[1].data).toBe('data'))
+		})
+	})
+
+	describe('refreshInterval option', () => {
+		const setVisibility = (visibilityState: DocumentVisibilityState) => Object.defineProperty(document, 'visibilityState', {
+			value: visibilityState,
+			configurable: true
+		})
+
+		beforeEach(() => {
+			vi.useFakeTimers()
+		})
+		afterEach(() => {
+			vi.useRealTimers()
+			setVisibility('visible')
+		})
+
+		test('re-runs the last load with the same params', async () => {
+			let count = 0
+			const fn = vi.fn(async (disposer, name: string) => `${name}-${++count}`)
+			const {result} = renderHook(() => useLoad<string, [string]>(undefined, {refreshInterval: 100}))
+
+			await act(() => vi.advanceTimersByTimeAsync(300))
+			expect(fn).not.toHaveBeenCalled()
+
+			await act(() => result.current.loadAbortable(fn)('name'))
+			expect(result.current.data).toBe('name-1')
+
+			await act(() => vi.advanceTimersByTimeAsync(100))
+			expect(fn).toHaveBeenCalledTimes(2)
+			expect(fn).toHaveBeenLastCalledWith(expect.anything(), 'name')
+			expect(result.current.data).toBe('name-2')
+
+			await act(() => vi.advanceTimersByTimeAsync(100))
+			expect(result.current.data).toBe('name-3')
+		})
+
+		test('keeps data while refreshing', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {refreshInterval: 100}))
+
+			act(() => {
+				void result.current.loadAbortable(() => new Promise<string>(resolve => setTimeout(() => resolve('data'), 50)))()
+			})
+			await act(() => vi.advanceTimersByTimeAsync(50))
+			expect(result.current.data).toBe('data')
+
+			await act(() => vi.advanceTimersByTimeAsync(50))
+
+			expect(result.current.loading).toBe(true)
+			expect(result.current.data).toBe('data')
+		})
+
+		test('skips ticks while a load is in progress', async () => {
+			const fn = vi.fn(() => new Promise<string>(resolve => setTimeout(() => resolve('data'), 250)))
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {refreshInterval: 100}))
+
+			act(() => {
+				void result.current.loadAbortable(fn)()
+			})
+			await act(() => vi.advanceTimersByTimeAsync(200))
+			expect(fn).toHaveBeenCalledTimes(1)
+
+			await act(() => vi.advanceTimersByTimeAsync(100))
+			expect(fn).toHaveBeenCalledTimes(2)
+		})
+
+		test('pauses while the document is hidden', async () => {
+			const fn = vi.fn(async () => 'data')
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {refreshInterval: 100}))
+			await act(() => result.current.loadAbortable(fn)())
+
+			setVisibility('hidden')
+			await act(() => vi.advanceTimersByTimeAsync(300))
+			expect(fn).toHaveBeenCalledTimes(1)
+
+			setVisibility('visible')
+			await act(() => vi.advanceTimersByTimeAsync(100))
+			expect(fn).toHaveBeenCalledTimes(2)
+		})
+
+		test('stops on unmount and when the interval is removed', async () => {
+			const fn = vi.fn(async () => 'data')
+			const {result, rerender, unmount} = renderHook(
+				({refreshInterval}) => useLoad<string, []>(undefined, {refreshInterval}),
+				{initialProps: {refreshInterval: 100 as number | undefined}}
+			)
+			await act(() => result.current.loadAbortable(fn)())
+
+			rerender({refreshInterval: undefined})
+			await act(() => vi.advanceTimersByTimeAsync(300))
+			expect(fn).toHaveBeenCalledTimes(1)
+
+			rerender({refreshInterval: 100})
+			await act(() => vi.advanceTimersByTimeAsync(100))
+			expect(fn).toHaveBeenCalledTimes(2)
+
+			unmount()
+			await vi.advanceTimersByTimeAsync(300)
+			expect(fn).toHaveBeenCalledTimes(2)
+		})
+
+		test('errors land in the state', async () => {
+			let fail = false
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {refreshInterval: 100}))
+			await act(() => result.current.loadAbortable(async () => {
+				if (fail) throw new Error('failed')
+				return 'data'
+			})())
+
+			fail = true
+			await act(() => vi.advanceTimersByTimeAsync(100))
+
+			expect((result.current.error as Error).message).toBe('failed')
+		})
+
+		test('keyed load is reloaded', async () => {
+			let count = 0
+			const {result} = renderHook(() => useLoad(['key'], async () => ++count, {refreshInterval: 100}), {wrapper: cacheWrapper()})
+			await act(() => vi.advanceTimersByTimeAsync(0))
+			expect(result.current.data).toBe(1)
+
+			await act(() => vi.advanceTimersByTimeAsync(100))
+			expect(result.current.data).toBe(2)
+		})
+	})
+
+	describe('revalidateOnFocus and revalidateOnReconnect options', () => {
+		const setVisibility = (visibilityState: DocumentVisibilityState) => Object.defineProperty(document, 'visibilityState', {
+			value: visibilityState,
+			configurable: true
+		})
+
+		beforeEach(() => {
+			vi.useFakeTimers()
+		})
+		afterEach(() => {
+			vi.useRealTimers()
+			setVisibility('visible')
+		})
+
+		test('re-runs the last load on focus and visibilitychange, keeping data', async () => {
+			let count = 0
+			const fn = vi.fn(async () => ++count)
+			const {result} = renderHook(() => useLoad<number, []>(undefined, {revalidateOnFocus: true, revalidateThrottle: 0}))
+			await act(() => result.current.loadAbortable(fn)())
+
+			act(() => {
+				window.dispatchEvent(new Event('focus'))
+			})
+			expect(result.current.loading).toBe(true)
+			expect(result.current.data).toBe(1)
+			await act(() => vi.advanceTimersByTimeAsync(0))
+			expect(result.current.data).toBe(2)
+
+			setVisibility('hidden')
+			act(() => {
+				document.dispatchEvent(new Event('visibilitychange'))
+			})
+			expect(fn).toHaveBeenCalledTimes(2)
+
+			setVisibility('visible')
+			await act(async () => {
+				document.dispatchEvent(new Event('visibilitychange'))
+				await vi.advanceTimersByTimeAsync(0)
+			})
+			expect(result.current.data).toBe(3)
+		})
+
+		test('re-runs the last load when the network reconnects', async () => {
+			const fn = vi.fn(async () => 'data')
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {revalidateOnReconnect: true}))
+			await act(() => result.current.loadAbortable(fn)())
+
+			act(() => {
+				window.dispatchEvent(new Event('focus'))
+			})
+			expect(fn).toHaveBeenCalledTimes(1)
+
+			await act(async () => {
+				window.dispatchEvent(new Event('online'))
+				await vi.advanceTimersByTimeAsync(0)
+			})
+			expect(fn).toHaveBeenCalledTimes(2)
+		})
+
+		test('rapid focus events are throttled', async () => {
+			const fn = vi.fn(async () => 'data')
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {revalidateOnFocus: true}))
+			await act(() => result.current.loadAbortable(fn)())
+
+			for (let i = 0; i < 5; i++) await act(async () => {
+				window.dispatchEvent(new Event('focus'))
+				document.dispatchEvent(new Event('visibilitychange'))
+				await vi.advanceTimersByTimeAsync(1000)
+			})
+			expect(fn).toHaveBeenCalledTimes(2)
+
+			await act(async () => {
+				window.dispatchEvent(new Event('focus'))
+				await vi.advanceTimersByTimeAsync(0)
+			})
+			expect(fn).toHaveBeenCalledTimes(3)
+		})
+
+		test('does nothing before the first load or while a load is in progress', async () => {
+			const fn = vi.fn(() => new Promise<string>(() => {}))
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {revalidateOnFocus: true, revalidateThrottle: 0}))
+
+			act(() => {
+				window.dispatchEvent(new Event('focus'))
+			})
+			act(() => {
+				void result.current.loadAbortable(fn)()
+			})
+			act(() => {
+				window.dispatchEvent(new Event('focus'))
+			})
+
+			expect(fn).toHaveBeenCalledTimes(1)
+		})
+
+		test('listeners are removed on unmount', async () => {
+			const fn = vi.fn(async () => 'data')
+			const {result, unmount} = renderHook(() => useLoad<string, []>(undefined, {
+				revalidateOnFocus: true,
+				revalidateOnReconnect: true,
+				revalidateThrottle: 0
+			}))
+			await act(() => result.current.loadAbortable(fn)())
+
+			unmount()
+			window.dispatchEvent(new Event('focus'))
+			window.dispatchEvent(new Event('online'))
+			document.dispatchEvent(new Event('visibilitychange'))
+
+			expect(fn).toHaveBeenCalledTimes(1)
+		})
+
+		test('keyed load is reloaded on focus', async () => {
+			let count = 0
+			const {result} = renderHook(() => useLoad(['key'], async () => ++count, {revalidateOnFocus: true}), {wrapper: cacheWrapper()})
+			await act(() => vi.advanceTimersByTimeAsync(0))
+			expect(result.current.data).toBe(1)
+
+			await act(async () => {
+				window.dispatchEvent(new Event('focus'))
+				await vi.advanceTimersByTimeAsync(0)
+			})
+			expect(result.current.data).toBe(2)
+		})
+	})
+
+	describe('status and timestamps', () => {
+		beforeEach(() => {
+			vi.useFakeTimers()
+			vi.setSystemTime(1000)
+		})
+		afterEach(() => {
+			vi.useRealTimers()
+		})
+
+		test('status tells never loaded apart from loaded undefined', async () => {
+			const {result} = renderHook(() => useLoad<string | undefined, []>())
+			expect(result.current.status).toBe('idle')
+			expect(result.current.startedAt).toBeUndefined()
+			expect(result.current.updatedAt).toBeUndefined()
+
+			act(() => {
+				result.current.loadAbortable(() => undefined)()
+			})
+
+			expect(result.current.status).toBe('success')
+			expect(result.current.data).toBeUndefined()
+			expect(result.current.updatedAt).toBe(1000)
+		})
+
+		test('loading and success record startedAt and updatedAt', async () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			let promise: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(() => new Promise<string>(resolve => setTimeout(() => resolve('data'), 500)))()
+			})
+			expect(result.current).toMatchObject({status: 'loading', loading: true, startedAt: 1000})
+			expect(result.current.updatedAt).toBeUndefined()
+
+			await act(async () => {
+				await vi.advanceTimersByTimeAsync(500)
+				await promise
+			})
+			expect(result.current).toMatchObject({status: 'success', data: 'data', loading: false, startedAt: 1000, updatedAt: 1500})
+		})
+
+		test('error records errorAt and keeps the previous timestamps', async () => {
+			const error = new Error('failed')
+			const {result} = renderHook(() => useLoad<string, []>())
+			act(() => {
+				result.current.loadAbortable(() => 'data')()
+			})
+
+			vi.setSystemTime(2000)
+			act(() => {
+				expect(() => result.current.loadAbortable(() => {
+					throw error
+				})()).toThrow(error)
+			})
+
+			expect(result.current).toMatchObject({status: 'error', error, loading: false, startedAt: 2000, updatedAt: 1000, errorAt: 2000})
+			expect(result.current.data).toBeUndefined()
+		})
+
+		test('reloading with keepPrevious has loading status and keeps data', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {keepPrevious: true}))
+			act(() => {
+				result.current.loadAbortable(() => 'data')()
+			})
+
+			vi.setSystemTime(2000)
+			act(() => {
+				void result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+
+			expect(result.current).toMatchObject({status: 'loading', data: 'data', loading: true, startedAt: 2000, updatedAt: 1000})
+		})
+
+		test('getInitial data is a success, and undefined is idle', () => {
+			const {result: withData} = renderHook(() => useLoad(() => 'initial'))
+			expect(withData.current).toMatchObject({status: 'success', data: 'initial', updatedAt: 1000})
+
+			const {result: withoutData} = renderHook(() => useLoad(() => undefined))
+			expect(withoutData.current.status).toBe('idle')
+		})
+
+		test('setData updates updatedAt', () => {
+			const {result} = renderHook(() => useLoad<number, []>())
+
+			vi.setSystemTime(3000)
+			act(() => result.current.setData(1))
+
+			expect(result.current).toMatchObject({status: 'success', data: 1, updatedAt: 3000})
+		})
+
+		test('keyed form has status and timestamps', async () => {
+			const {result} = renderHook(() => useLoad(['key'], async () => 'data'), {wrapper: cacheWrapper()})
+			expect(result.current).toMatchObject({status: 'loading', startedAt: 1000})
+
+			await act(() => vi.advanceTimersByTimeAsync(0))
+			expect(result.current).toMatchObject({status: 'success', data: 'data', updatedAt: 1000})
+		})
+	})
+
+	describe('lifecycle callbacks', () => {
+		test('onSuccess and onSettled are called once with data and params', async () => {
+			const onSuccess = vi.fn()
+			const onError = vi.fn()
+			const onSettled = vi.fn()
+			const {result} = renderHook(() => useLoad<string, [number]>(undefined, {onSuccess, onError, onSettled}))
+
+			await act(() => result.current.loadAbortable(async (_, id: number) => `data ${id}`)(1))
+
+			expect(onSuccess).toHaveBeenCalledTimes(1)
+			expect(onSuccess).toHaveBeenCalledWith('data 1', [1])
+			expect(onSettled).toHaveBeenCalledTimes(1)
+			expect(onSettled).toHaveBeenCalledWith('data 1', undefined, [1])
+			expect(onError).not.toHaveBeenCalled()
+		})
+
+		test('onError and onSettled are called with the error', async () => {
+			const error = new Error('failed')
+			const onSuccess = vi.fn()
+			const onError = vi.fn()
+			const onSettled = vi.fn()
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {onSuccess, onError, onSettled}))
+
+			await act(() => expect(result.current.loadAbortable(async () => {
+				throw error
+			})()).rejects.toThrow(error))
+
+			expect(onError).toHaveBeenCalledTimes(1)
+			expect(onError).toHaveBeenCalledWith(error, [])
+			expect(onSettled).toHaveBeenCalledWith(undefined, error, [])
+			expect(onSuccess).not.toHaveBeenCalled()
+		})
+
+		test('sync loads call the callbacks too', () => {
+			const onSuccess = vi.fn()
+			const {result} = renderHook(() => useLoad<string, [string]>(undefined, {onSuccess}))
+
+			act(() => {
+				result.current.load((value: string) => value)('sync')
+			})
+
+			expect(onSuccess).toHaveBeenCalledWith('sync', ['sync'])
+		})
+
+		test('a superseded load calls onAbort only', async () => {
+			const onSuccess = vi.fn()
+			const onSettled = vi.fn()
+			const onAbort = vi.fn()
+			const {result} = renderHook(() => useLoad<string, [number]>(undefined, {onSuccess, onSettled, onAbort}))
+
+			let resolveFirst!: (value: string) => void
+			act(() => {
+				void result.current.loadAbortable((_, id: number) => new Promise<string>(resolve => resolveFirst = resolve))(1)
+			})
+			await act(() => result.current.loadAbortable(async (_, id: number) => `data ${id}`)(2))
+			await act(async () => resolveFirst('stale'))
+
+			expect(onAbort).toHaveBeenCalledTimes(1)
+			expect(onAbort).toHaveBeenCalledWith(expect.anything(), [1])
+			expect(onSuccess).toHaveBeenCalledTimes(1)
+			expect(onSuccess).toHaveBeenCalledWith('data 2', [2])
+			expect(onSettled).toHaveBeenCalledTimes(1)
+		})
+
+		test('unmounting aborts the load and calls onAbort', async () => {
+			const onSuccess = vi.fn()
+			const onAbort = vi.fn()
+			const {result, unmount} = renderHook(() => useLoad<string, []>(undefined, {onSuccess, onAbort}))
+
+			let resolve!: (value: string) => void
+			act(() => {
+				void result.current.loadAbortable(() => new Promise<string>(r => resolve = r))()
+			})
+			unmount()
+			resolve('data')
+			await Promise.resolve()
+
+			expect(onAbort).toHaveBeenCalledTimes(1)
+			expect(onSuccess).not.toHaveBeenCalled()
+		})
+
+		test('a timed out load calls onError, not onAbort', async () => {
+			vi.useFakeTimers()
+			try {
+				const onError = vi.fn()
+				const onAbort = vi.fn()
+				const {result} = renderHook(() => useLoad<string, []>(undefined, {timeout: 100, onError, onAbort}))
+
+				let promise!: Promise<string>
+				act(() => {
+					promise = result.current.loadAbortable(() => new Promise<string>(() => {}))()
+					promise.catch(() => {})
+				})
+				await act(() => vi.advanceTimersByTimeAsync(100))
+
+				expect(onError).toHaveBeenCalledWith(expect.any(TimeoutError), [])
+				expect(onAbort).not.toHaveBeenCalled()
+			} finally {
+				vi.useRealTimers()
+			}
+		})
+
+		test('callbacks of the latest render are called', async () => {
+			const calls: string[] = []
+			const {result, rerender} = renderHook(({label}) => useLoad<string, []>(undefined, {
+				onSuccess: data => calls.push(`${label}: ${data}`)
+			}), {initialProps: {label: 'first'}})
+
+			let resolve!: (value: string) => void
+			let promise!: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(() => new Promise<string>(r => resolve = r))()
+			})
+			rerender({label: 'second'})
+			await act(async () => {
+				resolve('data')
+				await promise
+			})
+
+			expect(calls).toEqual(['second: data'])
+		})
+
+		test('mutate calls the callbacks', async () => {
+			const onSuccess = vi.fn()
+			const {result} = renderHook(() => useLoad<string, []>(() => 'previous', {onSuccess}))
+
+			await act(() => result.current.mutate('optimistic', async () => 'committed'))
+
+			expect(onSuccess).toHaveBeenCalledWith('committed', [])
+		})
+
+		test('keyed form calls the callbacks with the key', async () => {
+			const onSuccess = vi.fn()
+			renderHook(() => useLoad(['user', 1], async () => 'data', {onSuccess}), {wrapper: cacheWrapper()})
+
+			await waitFor(() => expect(onSuccess).toHaveBeenCalledWith('data', [['user', 1]]))
+			expect(onSuccess).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe('streaming', () => {
+		// a stream whose values are yielded when release() is called
+		function makeStream(values: string[]) {
+			const gates: (() => void)[] = []
+			const finished = vi.fn()
+			async function* stream() {
+				try {
+					for (const value of values) {
+						await new Promise<void>(resolve => gates.push(resolve))
+						yield value
+					}
+				} finally {
+					finished()
+				}
+			}
+			const release = () => act(async () => {
+				await vi.waitFor(() => expect(gates.length).toBeGreaterThan(0))
+				gates.shift()!()
+			})
+			return {stream, release, finished}
+		}
+
+		test('each yielded value updates data, and loading ends with the stream', async () => {
+			const {stream, release, finished} = makeStream(['a', 'ab', 'abc'])
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			let promise!: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(() => stream())()
+			})
+			expect(result.current).toMatchObject({status: 'loading', loading: true})
+
+			await release()
+			await waitFor(() => expect(result.current.data).toBe('a'))
+			expect(result.current).toMatchObject({status: 'loading', loading: true})
+
+			await release()
+			await waitFor(() => expect(result.current.data).toBe('ab'))
+
+			await release()
+			await act(async () => {
+				await expect(promise).resolves.toBe('abc')
+			})
+			expect(result.current).toMatchObject({status: 'success', data: 'abc', loading: false})
+			expect(finished).toHaveBeenCalledTimes(1)
+		})
+
+		test('superseding a stream calls return() of its iterator', async () => {
+			const {stream, release, finished} = makeStream(['a', 'b'])
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			act(() => {
+				void result.current.loadAbortable(() => stream())()
+			})
+			await release()
+			await waitFor(() => expect(result.current.data).toBe('a'))
+
+			act(() => {
+				result.current.loadAbortable(() => 'replaced')()
+			})
+			await release()
+
+			await waitFor(() => expect(finished).toHaveBeenCalledTimes(1))
+			expect(result.current).toMatchObject({status: 'success', data: 'replaced', loading: false})
+		})
+
+		test('unmounting stops the stream', async () => {
+			const {stream, release, finished} = makeStream(['a', 'b'])
+			const {result, unmount} = renderHook(() => useLoad<string, []>())
+
+			act(() => {
+				void result.current.loadAbortable(() => stream())()
+			})
+			await release()
+			unmount()
+			await release()
+
+			await vi.waitFor(() => expect(finished).toHaveBeenCalledTimes(1))
+		})
+
+		test('an error thrown by the stream is set to error', async () => {
+			const error = new Error('failed')
+			const {result} = renderHook(() => useLoad<string, []>())
+
+			await act(() => expect(result.current.loadAbortable(async function* () {
+				yield 'a'
+				throw error
+			})()).rejects.toThrow(error))
+
+			expect(result.current).toMatchObject({status: 'error', error, loading: false})
+		})
+
+		test('callbacks are called once with the last value', async () => {
+			const onSuccess = vi.fn()
+			const {result} = renderHook(() => useLoad<number, []>(undefined, {onSuccess}))
+
+			await act(() => result.current.loadAbortable(async function* () {
+				yield 1
+				yield 2
+			})())
+
+			expect(onSuccess).toHaveBeenCalledTimes(1)
+			expect(onSuccess).toHaveBeenCalledWith(2, [])
+		})
+	})
+
+	describe('abort and reset', () => {
+		test('abort disposes the in-progress load and sets loading to false', async () => {
+			const onAbort = vi.fn()
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {onAbort}))
+
+			let signal!: AbortSignal
+			let resolve!: (value: string) => void
+			let promise!: Promise<string>
+			act(() => {
+				promise = result.current.loadAbortable(disposer => {
+					signal = disposer.signal
+					return new Promise<string>(r => resolve = r)
+				})()
+			})
+			act(() => result.current.abort('cancelled'))
+
+			expect(signal.aborted).toBe(true)
+			expect(signal.reason).toBe('cancelled')
+			expect(onAbort).toHaveBeenCalledWith('cancelled', [])
+			expect(result.current).toMatchObject({status: 'idle', loading: false})
+			expect(result.current.loadingRef.current).toBeUndefined()
+
+			await act(async () => {
+				resolve('stale')
+				await promise
+			})
+			expect(result.current.data).toBeUndefined()
+		})
+
+		test('abort keeps the previous data with keepPrevious', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {keepPrevious: true}))
+			await act(() => result.current.loadAbortable(async () => 'data')())
+
+			act(() => {
+				void result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+			act(() => result.current.abort())
+
+			expect(result.current).toMatchObject({status: 'success', data: 'data', loading: false})
+		})
+
+		test('abort drops queued loads', async () => {
+			const fn = vi.fn(async (_: PartialDisposer) => 'queued')
+			const {result} = renderHook(() => useLoad<string, []>(undefined, {strategy: 'queue'}))
+
+			let resolve!: (value: string) => void
+			let queued!: Promise<string>
+			act(() => {
+				void result.current.loadAbortable(() => new Promise<string>(r => resolve = r))()
+				queued = result.current.loadAbortable(fn)()
+			})
+			act(() => result.current.abort('cancelled'))
+			await act(async () => resolve('first'))
+
+			await expect(queued).rejects.toBe('cancelled')
+			expect(fn).not.toHaveBeenCalled()
+			expect(result.current).toMatchObject({status: 'idle', loading: false})
+		})
+
+		test('a load after abort works', async () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+			act(() => {
+				void result.current.loadAbortable(() => new Promise<string>(() => {}))()
+			})
+			act(() => result.current.abort())
+
+			await act(() => result.current.loadAbortable(async () => 'data')())
+
+			expect(result.current).toMatchObject({status: 'success', data: 'data', loading: false})
+		})
+
+		test('abort without an in-progress load keeps the state', () => {
+			const {result} = renderHook(() => useLoad(() => 'initial'))
+			const state = result.current
+
+			act(() => result.current.abort())
+
+			expect(result.current.data).toBe('initial')
+			expect(result.current.abort).toBe(state.abort)
+		})
+
+		test('reset aborts the load and goes back to the getInitial state', async () => {
+			const {result} = renderHook(() => useLoad<string, []>(() => 'initial'))
+			await act(() => result.current.loadAbortable(async () => 'loaded')())
+
+			let signal!: AbortSignal
+			act(() => {
+				void result.current.loadAbortable(disposer => {
+					signal = disposer.signal
+					return new Promise<string>(() => {})
+				})()
+			})
+			act(() => result.current.reset())
+
+			expect(signal.aborted).toBe(true)
+			expect(result.current).toMatchObject({status: 'success', data: 'initial', loading: false})
+		})
+
+		test('reset without getInitial goes back to idle', async () => {
+			const {result} = renderHook(() => useLoad<string, []>())
+			await act(() => expect(result.current.loadAbortable(async () => {
+				throw new Error('failed')
+			})()).rejects.toThrow())
+
+			act(() => result.current.reset())
+
+			expect(result.current.status).toBe('idle')
+			expect(result.current.error).toBeUndefined()
+		})
+
+		test('keyed form aborts and resets the cache entry', async () => {
+			const cache = createLoadCache()
+			cache.set(['key'], 'cached')
+			const {result} = renderHook(() => useLoad(['key'], () => new Promise<string>(() => {}), {keepPrevious: true}), {wrapper: cacheWrapper(cache)})
+
+			act(() => {
+				void result.current.reload()
+			})
+			expect(result.current.loading).toBe(true)
+			act(() => result.current.abort())
+			expect(result.current).toMatchObject({status: 'success', data: 'cached', loading: false})
+
+			act(() => result.current.reset())
+			expect(result.current.status).toBe('idle')
+			expect(cache.get(['key']).data).toBeUndefined()
+		})
+	})
 })
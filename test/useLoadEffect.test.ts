@@ -0,0 +1,152 @@
+import {describe, expect, test, vi} from 'vitest'
+import {act, renderHook, waitFor} from '@testing-library/react'
+import {PartialDisposer, useLoadEffect} from '../index'
+
+describe('useLoadEffect', () => {
+	test('loads on mount', async () => {
+		const fn = vi.fn(async () => 'data')
+		const {result} = renderHook(() => useLoadEffect(fn, []))
+
+		expect(result.current.loading).toBe(true)
+		await waitFor(() => expect(result.current.data).toBe('data'))
+		expect(fn).toHaveBeenCalledTimes(1)
+		expect(result.current.status).toBe('success')
+	})
+
+	test('reloads when deps change, aborting the previous load', async () => {
+		const signals: AbortSignal[] = []
+		const {result, rerender} = renderHook(({id}) => useLoadEffect(async ({signal}) => {
+			signals.push(signal)
+			await new Promise(resolve => setTimeout(resolve, 10))
+			return `user ${id}`
+		}, [id]), {initialProps: {id: 1}})
+
+		rerender({id: 2})
+
+		await waitFor(() => expect(result.current.data).toBe('user 2'))
+		expect(signals).toHaveLength(2)
+		expect(signals[0].aborted).toBe(true)
+
+		rerender({id: 2})
+		expect(signals).toHaveLength(2)
+	})
+
+	test('deps are compared with Object.is by default, and deeply with deepDeps', async () => {
+		const fn = vi.fn(() => 'data')
+		const {rerender} = renderHook(({filter, deepDeps}) => useLoadEffect(fn, [filter], {deepDeps}), {
+			initialProps: {filter: {name: 'a'}, deepDeps: false}
+		})
+		expect(fn).toHaveBeenCalledTimes(1)
+
+		rerender({filter: {name: 'a'}, deepDeps: false})
+		expect(fn).toHaveBeenCalledTimes(2)
+
+		rerender({filter: {name: 'a'}, deepDeps: true})
+		rerender({filter: {name: 'a'}, deepDeps: true})
+		expect(fn).toHaveBeenCalledTimes(2)
+
+		rerender({filter: {name: 'b'}, deepDeps: true})
+		expect(fn).toHaveBeenCalledTimes(3)
+	})
+
+	test('no load runs while enabled is false', async () => {
+		const fn = vi.fn(() => 'data')
+		const {result, rerender} = renderHook(({id, enabled}) => useLoadEffect(fn, [id], {enabled}), {
+			initialProps: {id: 1, enabled: false}
+		})
+
+		rerender({id: 2, enabled: false})
+		expect(fn).not.toHaveBeenCalled()
+		expect(result.current.status).toBe('idle')
+
+		rerender({id: 2, enabled: true})
+		expect(fn).toHaveBeenCalledTimes(1)
+		expect(result.current.data).toBe('data')
+	})
+
+	test('skipInitialLoad skips the first load when getInitial returns data', async () => {
+		const fn = vi.fn(() => 'loaded')
+		const {result, rerender} = renderHook(({id}) => useLoadEffect(fn, [id], {
+			getInitial: () => 'initial',
+			skipInitialLoad: true
+		}), {initialProps: {id: 1}})
+
+		expect(fn).not.toHaveBeenCalled()
+		expect(result.current.data).toBe('initial')
+
+		rerender({id: 2})
+		expect(fn).toHaveBeenCalledTimes(1)
+		expect(result.current.data).toBe('loaded')
+	})
+
+	test('skipInitialLoad skips the first load in StrictMode', async () => {
+		const fn = vi.fn(() => 'loaded')
+		const {result, rerender} = renderHook(({id}) => useLoadEffect(fn, [id], {
+			getInitial: () => 'ssr',
+			skipInitialLoad: true
+		}), {initialProps: {id: 1}, reactStrictMode: true})
+		await act(async () => {})
+
+		expect(fn).not.toHaveBeenCalled()
+		expect(result.current.data).toBe('ssr')
+
+		rerender({id: 2})
+		expect(fn).toHaveBeenCalled()
+		expect(result.current.data).toBe('loaded')
+	})
+
+	test('skipInitialLoad loads when enabled later', async () => {
+		const fn = vi.fn(() => 'loaded')
+		const {result, rerender} = renderHook(({enabled}) => useLoadEffect(fn, [], {
+			getInitial: () => 'ssr',
+			skipInitialLoad: true,
+			enabled
+		}), {initialProps: {enabled: false}})
+
+		rerender({enabled: true})
+
+		expect(fn).toHaveBeenCalledTimes(1)
+		expect(result.current.data).toBe('loaded')
+	})
+
+	test('skipInitialLoad loads when getInitial returns no data', async () => {
+		const fn = vi.fn(() => 'loaded')
+		const {result} = renderHook(() => useLoadEffect(fn, [], {getInitial: () => undefined, skipInitialLoad: true}))
+
+		expect(fn).toHaveBeenCalledTimes(1)
+		expect(result.current.data).toBe('loaded')
+	})
+
+	test('getInitial data is reloaded without skipInitialLoad', async () => {
+		const fn = vi.fn(() => 'loaded')
+		const {result} = renderHook(() => useLoadEffect(fn, [], {getInitial: () => 'initial'}))
+
+		expect(fn).toHaveBeenCalledTimes(1)
+		expect(result.current.data).toBe('loaded')
+	})
+
+	test('the latest fn is called, and errors land in the state', async () => {
+		const error = new Error('failed')
+		const {result, rerender} = renderHook(({fail}) => useLoadEffect(() => {
+			if (fail) throw error
+			return 'data'
+		}, []), {initialProps: {fail: false}})
+		expect(result.current.data).toBe('data')
+
+		rerender({fail: true})
+		await act(() => expect(result.current.reload()).rejects.toThrow(error))
+
+		expect(result.current).toMatchObject({status: 'error', error})
+	})
+
+	test('load options are passed to useLoad', async () => {
+		const onSuccess = vi.fn()
+		const {result} = renderHook(() => useLoadEffect(async (disposer: PartialDisposer) => {
+			disposer.progress(1)
+			return 'data'
+		}, [], {onSuccess}))
+
+		await waitFor(() => expect(onSuccess).toHaveBeenCalledWith('data', []))
+		expect(result.current.progress).toBe(1)
+	})
+})
@@ -0,0 +1,159 @@
+import {describe, expect, test, vi} from 'vitest'
+import {useEffect} from 'react'
+import {act, renderHook, waitFor} from '@testing-library/react'
+import {useLoadMore} from '../index'
+
+const items = Array.from({length: 25}, (_, i) => i)
+
+// 10 items per page, page-based
+const fetchPage = (disposer: unknown, page = 0) => new Promise<number[]>(resolve => setTimeout(() => resolve(items.slice(page * 10, page * 10 + 10)), 10))
+const getNextPage = (lastPage: number[], pages: number[][]) => lastPage.length === 10 ? pages.length : undefined
+
+describe('useLoadMore', () => {
+	test('initial state', () => {
+		const {result} = renderHook(() => useLoadMore(fetchPage, getNextPage))
+
+		expect(result.current.pages).toEqual([])
+		expect(result.current.loading).toBe(false)
+		expect(result.current.error).toBeUndefined()
+		expect(result.current.hasMore).toBe(true)
+	})
+
+	test('loads the first page in an effect under StrictMode', async () => {
+		const {result} = renderHook(() => {
+			const list = useLoadMore(fetchPage, getNextPage)
+			const {loadNext} = list
+			useEffect(() => void loadNext(), [loadNext])
+			return list
+		}, {reactStrictMode: true})
+
+		await waitFor(() => expect(result.current.pages).toEqual([items.slice(0, 10)]))
+		expect(result.current.loading).toBe(false)
+
+		await act(() => result.current.loadNext())
+		expect(result.current.pages).toEqual([items.slice(0, 10), items.slice(10, 20)])
+	})
+
+	test('loadNext appends pages until there is no more', async () => {
+		const fetch = vi.fn(fetchPage)
+		const {result} = renderHook(() => useLoadMore(fetch, getNextPage))
+
+		let promise: Promise<number[] | undefined>
+		act(() => {
+			promise = result.current.loadNext()
+		})
+		expect(result.current.loading).toBe(true)
+		await act(async () => {
+			expect(await promise).toEqual(items.slice(0, 10))
+		})
+		expect(result.current.pages).toEqual([items.slice(0, 10)])
+		expect(result.current.hasMore).toBe(true)
+
+		await act(() => result.current.loadNext())
+		await act(() => result.current.loadNext())
+		expect(result.current.pages).toEqual([items.slice(0, 10), items.slice(10, 20), items.slice(20)])
+		expect(result.current.hasMore).toBe(false)
+		expect(fetch.mock.calls.map(([, cursor]) => cursor)).toEqual([undefined, 1, 2])
+
+		await act(async () => {
+			expect(await result.current.loadNext()).toBeUndefined()
+		})
+		expect(fetch).toHaveBeenCalledTimes(3)
+	})
+
+	test('cursor-based pages', async () => {
+		const fetchByCursor = async (disposer: unknown, cursor: string | undefined) => cursor === undefined
+			? {items: ['a', 'b'], next: 'c'}
+			: {items: ['c'], next: undefined}
+		const {result} = renderHook(() => useLoadMore(fetchByCursor, lastPage => lastPage.next))
+
+		await act(() => result.current.loadNext())
+		await act(() => result.current.loadNext())
+
+		expect(result.current.pages.flatMap(page => page.items)).toEqual(['a', 'b', 'c'])
+		expect(result.current.hasMore).toBe(false)
+	})
+
+	test('calls while a page is loading are ignored', async () => {
+		const fetch = vi.fn(fetchPage)
+		const {result} = renderHook(() => useLoadMore(fetch, getNextPage))
+
+		let promises: Promise<number[] | undefined>[]
+		act(() => {
+			promises = [result.current.loadNext(), result.current.loadNext()]
+		})
+		await act(() => Promise.all(promises))
+
+		expect(fetch).toHaveBeenCalledTimes(1)
+		expect(result.current.pages.length).toBe(1)
+	})
+
+	test('error is set for the next page, and loadNext retries it', async () => {
+		let fail = true
+		const fetch = vi.fn(async (disposer: unknown, page = 0) => {
+			if (page === 1 && fail) throw new Error('failed')
+			return fetchPage(disposer, page)
+		})
+		const {result} = renderHook(() => useLoadMore(fetch, getNextPage))
+
+		await act(() => result.current.loadNext())
+		await act(() => result.current.loadNext().catch(() => {}))
+		expect((result.current.error as Error).message).toBe('failed')
+		expect(result.current.pages.length).toBe(1)
+
+		fail = false
+		await act(() => result.current.loadNext())
+		expect(result.current.error).toBeUndefined()
+		expect(result.current.pages.length).toBe(2)
+		expect(fetch.mock.calls.map(([, cursor]) => cursor)).toEqual([undefined, 1, 1])
+	})
+
+	test('reset aborts the loading page and removes pages', async () => {
+		let signal: AbortSignal
+		const {result} = renderHook(() => useLoadMore((disposer, page: number | undefined) => {
+			signal = disposer.signal
+			return fetchPage(disposer, page)
+		}, getNextPage))
+		await act(() => result.current.loadNext())
+
+		let promise: Promise<number[] | undefined>
+		act(() => {
+			promise = result.current.loadNext()
+		})
+		act(() => result.current.reset())
+		await act(() => promise)
+
+		expect(signal!.aborted).toBe(true)
+		expect(result.current.pages).toEqual([])
+		expect(result.current.loading).toBe(false)
+		expect(result.current.hasMore).toBe(true)
+	})
+
+	test('unmounted list does not append a stale page', async () => {
+		let signal: AbortSignal
+		const {result, unmount} = renderHook(() => useLoadMore((disposer, page: number | undefined) => {
+			signal = disposer.signal
+			return fetchPage(disposer, page)
+		}, getNextPage))
+
+		let promise: Promise<number[] | undefined>
+		act(() => {
+			promise = result.current.loadNext()
+		})
+		unmount()
+		await promise!
+
+		expect(signal!.aborted).toBe(true)
+		expect(result.current.pages).toEqual([])
+	})
+
+	test('fetchPage receives the loaded pages', async () => {
+		const fetch = vi.fn(fetchPage)
+		const {result} = renderHook(() => useLoadMore(fetch, getNextPage))
+
+		await act(() => result.current.loadNext())
+		await act(() => result.current.loadNext())
+
+		await waitFor(() => expect(fetch.mock.calls[1][2]).toEqual([items.slice(0, 10)]))
+	})
+})
@@ -0,0 +1,98 @@
+import {describe, expect, test, vi} from 'vitest'
+import {Component, createElement, ReactNode, Suspense} from 'react'
+import {act, render, screen} from '@testing-library/react'
+import {createLoadCache, LoadCache, LoadCacheProvider, useLoadSuspense} from '../index'
+
+class ErrorBoundary extends Component<{children: ReactNode}, {error?: unknown}> {
+	state: {error?: unknown} = {}
+
+	static getDerivedStateFromError(error: unknown) {
+		return {error}
+	}
+
+	render() {
+		return this.state.error
+			? `error: ${(this.state.error as Error).message}`
+			: this.props.children
+	}
+}
+
+function renderSuspense(children: ReactNode, cache: LoadCache = createLoadCache()) {
+	return render(createElement(
+		LoadCacheProvider,
+		{cache},
+		createElement(ErrorBoundary, null, createElement(Suspense, {fallback: 'loading'}, children))
+	))
+}
+
+function User({id, fetcher}: {id: number, fetcher: (disposer: unknown, key: readonly [string, number]) => Promise<string>}) {
+	const {data} = useLoadSuspense(['user', id] as const, fetcher)
+	return `user: ${data}`
+}
+
+const delayed = <T, >(value: T, ms = 10) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms))
+
+describe('useLoadSuspense', () => {
+	test('suspends until data is loaded', async () => {
+		const fetcher = vi.fn((disposer: unknown, key: readonly [string, number]) => delayed(`name-${key[1]}`))
+		renderSuspense(createElement(User, {id: 1, fetcher}))
+
+		expect(screen.getByText('loading')).toBeTruthy()
+		expect(await screen.findByText('user: name-1')).toBeTruthy()
+		expect(fetcher).toHaveBeenCalledTimes(1)
+	})
+
+	test('siblings with the same key share one request', async () => {
+		const fetcher = vi.fn((disposer: unknown, key: readonly [string, number]) => delayed(`name-${key[1]}`))
+		renderSuspense(createElement('div', null,
+			createElement('p', null, createElement(User, {id: 1, fetcher})),
+			createElement('p', null, createElement(User, {id: 1, fetcher})),
+		))
+
+		expect((await screen.findAllByText('user: name-1')).length).toBe(2)
+		expect(fetcher).toHaveBeenCalledTimes(1)
+	})
+
+	test('cached data is rendered without suspending', async () => {
+		const cache = createLoadCache()
+		cache.set(['user', 1], 'cached')
+		const fetcher = vi.fn((disposer: unknown, key: readonly [string, number]) => delayed(`name-${key[1]}`))
+
+		renderSuspense(createElement(User, {id: 1, fetcher}), cache)
+
+		expect(screen.getByText('user: cached')).toBeTruthy()
+		expect(fetcher).not.toHaveBeenCalled()
+	})
+
+	test('error is thrown to the ErrorBoundary', async () => {
+		const fetcher = vi.fn(async () => {
+			await delayed(undefined)
+			throw new Error('failed')
+		})
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+		try {
+			renderSuspense(createElement(User, {id: 1, fetcher}))
+
+			expect(await screen.findByText('error: failed')).toBeTruthy()
+		} finally {
+			consoleError.mockRestore()
+		}
+	})
+
+	test('data is kept while reloading', async () => {
+		const cache = createLoadCache()
+		let count = 0
+		const fetcher = vi.fn(() => delayed(`name-${++count}`))
+		renderSuspense(createElement(User, {id: 1, fetcher}), cache)
+		expect(await screen.findByText('user: name-1')).toBeTruthy()
+
+		let promise: Promise<string>
+		act(() => {
+			promise = cache.reload(['user', 1], fetcher, {keepPrevious: true})
+		})
+		expect(screen.getByText('user: name-1')).toBeTruthy()
+
+		await act(() => promise!)
+		expect(screen.getByText('user: name-2')).toBeTruthy()
+	})
+})
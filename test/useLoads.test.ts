@@ -0,0 +1,109 @@
+import {describe, expect, test, vi} from 'vitest'
+import {act, renderHook} from '@testing-library/react'
+import {useLoads} from '../index'
+
+// a promise resolved from outside
+function deferred<T>() {
+	let resolve!: (value: T) => void
+	let reject!: (error: unknown) => void
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res
+		reject = rej
+	})
+	return {promise, resolve, reject}
+}
+
+describe('useLoads', () => {
+	test('each key has an independent state', async () => {
+		const {result} = renderHook(() => useLoads<number, string>())
+		const row1 = deferred<string>()
+		const row2 = deferred<string>()
+
+		act(() => {
+			void result.current.loadAbortable(1, () => row1.promise)()
+			result.current.loadAbortable(2, () => row2.promise)().catch(() => {})
+		})
+		expect(result.current.get(1).loading).toBe(true)
+		expect(result.current.get(2).loading).toBe(true)
+		expect(result.current.get(3)).toEqual({status: 'idle', loading: false})
+		expect(result.current.isAnyLoading).toBe(true)
+
+		await act(async () => row1.resolve('deleted 1'))
+		expect(result.current.get(1)).toMatchObject({status: 'success', data: 'deleted 1', loading: false})
+		expect(result.current.get(2).loading).toBe(true)
+		expect(result.current.isAnyLoading).toBe(true)
+
+		await act(async () => row2.reject(new Error('failed')))
+		expect(result.current.get(2)).toMatchObject({status: 'error', loading: false})
+		expect(result.current.isAnyLoading).toBe(false)
+	})
+
+	test('a load of one key never aborts another key', async () => {
+		const {result} = renderHook(() => useLoads<string>())
+		const signals: Record<string, AbortSignal> = {}
+
+		act(() => {
+			void result.current.loadAbortable('a', ({signal}) => {
+				signals.a = signal
+				return new Promise(() => {})
+			})()
+			void result.current.loadAbortable('b', ({signal}) => {
+				signals.b = signal
+				return new Promise(() => {})
+			})()
+		})
+		expect(signals.a.aborted).toBe(false)
+
+		act(() => {
+			void result.current.loadAbortable('a', () => 'again')()
+		})
+		expect(signals.a.aborted).toBe(true)
+		expect(signals.b.aborted).toBe(false)
+		expect(result.current.get('a').data).toBe('again')
+	})
+
+	test('params are passed to fn, and options apply to every key', async () => {
+		const onSuccess = vi.fn()
+		const {result} = renderHook(() => useLoads<number, number>({onSuccess}))
+
+		await act(() => result.current.loadAbortable(1, async (_, a: number, b: number) => a + b)(2, 3))
+
+		expect(result.current.get(1).data).toBe(5)
+		expect(onSuccess).toHaveBeenCalledWith(5, [2, 3])
+	})
+
+	test('abort and reset a key', async () => {
+		const {result} = renderHook(() => useLoads<number, string>())
+		let signal!: AbortSignal
+		act(() => {
+			result.current.loadAbortable(1, () => 'data')()
+			void result.current.loadAbortable(2, disposer => {
+				signal = disposer.signal
+				return new Promise<string>(() => {})
+			})()
+		})
+
+		act(() => result.current.abort(2, 'cancelled'))
+		expect(signal.reason).toBe('cancelled')
+		expect(result.current.get(2)).toMatchObject({status: 'idle', loading: false})
+		expect(result.current.isAnyLoading).toBe(false)
+
+		act(() => result.current.reset(1))
+		expect(result.current.get(1)).toEqual({status: 'idle', loading: false})
+	})
+
+	test('every slot is cleaned up on unmount', async () => {
+		const {result, unmount} = renderHook(() => useLoads<number>())
+		const signals: AbortSignal[] = []
+
+		act(() => {
+			for (const key of [1, 2, 3]) void result.current.loadAbortable(key, ({signal}) => {
+				signals.push(signal)
+				return new Promise(() => {})
+			})()
+		})
+		unmount()
+
+		expect(signals.map(signal => signal.aborted)).toEqual([true, true, true])
+	})
+})
@@ -0,0 +1,84 @@
+import {describe, expect, test, vi} from 'vitest'
+import {createElement, ReactNode} from 'react'
+import {act, renderHook, waitFor} from '@testing-library/react'
+import {createSSRStore, SSRStore, SSRStoreProvider, useSSRLoad} from '../index'
+
+function storeWrapper(store: SSRStore) {
+	return ({children}: {children: ReactNode}) => createElement(SSRStoreProvider, {store}, children)
+}
+
+describe('useSSRLoad', () => {
+	test('uses the hydrated data without loading', () => {
+		const store = createSSRStore({data: {'["user",1]': 'ssr'}})
+		const fetcher = vi.fn(async () => 'client')
+
+		const {result} = renderHook(() => useSSRLoad(['user', 1], fetcher), {wrapper: storeWrapper(store)})
+
+		expect(store.server).toBe(false)
+		expect(result.current.data).toBe('ssr')
+		expect(result.current.loading).toBe(false)
+		expect(fetcher).not.toHaveBeenCalled()
+	})
+
+	test('uses the hydrated data without loading in StrictMode', async () => {
+		const store = createSSRStore({data: {'["user",1]': 'ssr'}})
+		const fetcher = vi.fn(async () => 'client')
+
+		const {result} = renderHook(() => useSSRLoad(['user', 1], fetcher), {wrapper: storeWrapper(store), reactStrictMode: true})
+		await act(async () => {})
+
+		expect(result.current.data).toBe('ssr')
+		expect(fetcher).not.toHaveBeenCalled()
+	})
+
+	test('loads when the key has no hydrated data', async () => {
+		const store = createSSRStore()
+		const fetcher = vi.fn(async (disposer: unknown, key: readonly [string, number]) => `name-${key[1]}`)
+
+		const {result} = renderHook(() => useSSRLoad(['user', 1] as const, fetcher), {wrapper: storeWrapper(store)})
+
+		await waitFor(() => expect(result.current.data).toBe('name-1'))
+		expect(fetcher).toHaveBeenCalledTimes(1)
+	})
+
+	test('hydrated data is used once', async () => {
+		const store = createSSRStore({data: {'["user",1]': 'ssr'}})
+		const first = renderHook(() => useSSRLoad(['user', 1], async () => 'client'), {wrapper: storeWrapper(store)})
+		expect(first.result.current.data).toBe('ssr')
+
+		const {result} = renderHook(() => useSSRLoad(['user', 1], async () => 'client'), {wrapper: storeWrapper(store)})
+
+		await waitFor(() => expect(result.current.data).toBe('client'))
+	})
+
+	test('loads again when key deeply changes', async () => {
+		const store = createSSRStore({data: {'["user",1]': 'ssr'}})
+		const fetcher = vi.fn(async (disposer: unknown, key: readonly [string, number]) => `name-${key[1]}`)
+		const {result, rerender} = renderHook(
+			({id}) => useSSRLoad(['user', id] as const, fetcher),
+			{initialProps: {id: 1}, wrapper: storeWrapper(store)}
+		)
+
+		rerender({id: 1})
+		expect(fetcher).not.toHaveBeenCalled()
+
+		rerender({id: 2})
+		await waitFor(() => expect(result.current.data).toBe('name-2'))
+		expect(fetcher).toHaveBeenCalledTimes(1)
+	})
+
+	test('reload loads again', async () => {
+		const store = createSSRStore({data: {'["key"]': 'ssr'}})
+		const {result} = renderHook(() => useSSRLoad('key', async () => 'reloaded'), {wrapper: storeWrapper(store)})
+
+		await act(() => result.current.reload())
+
+		expect(result.current.data).toBe('reloaded')
+	})
+
+	test('works without provider', async () => {
+		const {result} = renderHook(() => useSSRLoad('key', async () => 'data'))
+
+		await waitFor(() => expect(result.current.data).toBe('data'))
+	})
+})
@@ -3,6 +3,11 @@ import {defineConfig} from 'vitest/config'
 export default defineConfig({
 	test: {
 		environment: 'jsdom',
-		globals: true
+		globals: true,
+		typecheck: {
+			enabled: true,
+			include: ['test/**/*.test-d.ts'],
+			tsconfig: 'test/tsconfig.json'
+		}
 	}
-})
\ No newline at end of file
+})